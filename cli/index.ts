@@ -0,0 +1,160 @@
+#!/usr/bin/env node
+import { API } from '../src/packages/core/api';
+import { Dsn } from '../src/packages/utils/dsn';
+import { SentryError } from '../src/packages/utils/error';
+
+import { collectArtifacts } from './sourcemaps';
+import { createRelease, uploadArtifact, UploadOptions } from './upload';
+
+const USAGE = `Usage: wx-sentry-cli upload-sourcemaps <dir> [options]
+
+Uploads the source maps of a mini program build to a Sentry release.
+
+Options:
+  --release <release>   Release the files belong to        (SENTRY_RELEASE)
+  --dist <dist>         Distribution of the release
+  --org <org>           Organization slug                  (SENTRY_ORG)
+  --project <project>   Project slug                       (SENTRY_PROJECT)
+  --auth-token <token>  Sentry auth token                  (SENTRY_AUTH_TOKEN)
+  --url <url>           Sentry URL, e.g. https://sentry.io (SENTRY_URL)
+  --dsn <dsn>           DSN the Sentry URL is taken from   (SENTRY_DSN),
+                        for self-hosted Sentry only
+  --url-prefix <prefix> Prefix of file names, defaults to app:///
+`;
+
+/** Environment variables options fall back to */
+const ENV_FALLBACKS: Record<string, string> = {
+  release: 'SENTRY_RELEASE',
+  org: 'SENTRY_ORG',
+  project: 'SENTRY_PROJECT',
+  'auth-token': 'SENTRY_AUTH_TOKEN',
+  url: 'SENTRY_URL',
+  dsn: 'SENTRY_DSN',
+};
+
+/** Command line arguments */
+interface Args {
+  positionals: string[];
+  options: Record<string, string>;
+}
+
+/** Parses `--name value` and `--name=value` arguments */
+function parseArgs(argv: string[]): Args {
+  const args: Args = { positionals: [], options: {} };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.indexOf('--') !== 0) {
+      args.positionals.push(arg);
+      continue;
+    }
+    const separator = arg.indexOf('=');
+    if (separator !== -1) {
+      args.options[arg.slice(2, separator)] = arg.slice(separator + 1);
+    } else {
+      args.options[arg.slice(2)] = argv[i + 1];
+      i += 1;
+    }
+  }
+
+  Object.keys(ENV_FALLBACKS).forEach((name) => {
+    const value = process.env[ENV_FALLBACKS[name]];
+    if (args.options[name] === undefined && value) {
+      args.options[name] = value;
+    }
+  });
+  return args;
+}
+
+/** Hosts of sentry.io DSNs, such as `o1.ingest.sentry.io`, without the web API */
+const INGEST_HOST = /(^|\.)ingest\.([a-z]+\.)?sentry\.io$/;
+
+/**
+ * Returns the prefix of Sentry web API endpoints. Without an explicit URL,
+ * the web API is assumed to be served by the host of the DSN, which only
+ * holds for self-hosted Sentry.
+ */
+function getApiBase(options: Record<string, string>): string {
+  if (options.url) {
+    return `${options.url.replace(/\/+$/, '')}/api/`;
+  }
+  const dsn = new Dsn(options.dsn);
+  if (INGEST_HOST.test(dsn.host)) {
+    throw new SentryError(
+      `${dsn.host} does not serve the Sentry web API, pass --url, e.g. https://sentry.io`,
+    );
+  }
+  return new API(dsn).getBaseApiEndpoint();
+}
+
+/** Uploads the source maps of the build output */
+function uploadSourceMaps(dir: string, args: Args): Promise<void> {
+  const { options } = args;
+  const missing = ['release', 'org', 'project', 'auth-token'].filter(
+    (name) => !options[name],
+  );
+  if (!options.url && !options.dsn) {
+    missing.push('url');
+  }
+  if (missing.length) {
+    return Promise.reject(
+      new SentryError(
+        `Missing options: ${missing.map((m) => `--${m}`).join(', ')}`,
+      ),
+    );
+  }
+
+  const uploadOptions: UploadOptions = {
+    apiBase: getApiBase(options),
+    authToken: options['auth-token'],
+    org: options.org,
+    project: options.project,
+    release: options.release,
+    dist: options.dist,
+  };
+  const artifacts = collectArtifacts(dir, options['url-prefix'] || 'app:///');
+  if (!artifacts.length) {
+    console.warn(`No source maps found in ${dir}`);
+    return Promise.resolve();
+  }
+
+  return createRelease(uploadOptions).then(() =>
+    // One after another, to go easy on the server
+    artifacts.reduce<Promise<void>>(
+      (previous, artifact) =>
+        previous
+          .then(() => uploadArtifact(uploadOptions, artifact))
+          .then((uploaded) => {
+            console.log(
+              `${uploaded ? 'Uploaded' : 'Skipped existing'} ${artifact.name}`,
+            );
+          }),
+      Promise.resolve(),
+    ),
+  );
+}
+
+/** Runs the command line */
+export function main(argv: string[]): Promise<void> {
+  // The SDK modules check this flag, which is otherwise set by the bundler.
+  // Enabling it makes `Dsn` report what is wrong with an invalid DSN.
+  (global as { __LOG__?: boolean }).__LOG__ = true;
+
+  const args = parseArgs(argv);
+  const [command, dir] = args.positionals;
+  if (!command) {
+    console.log(USAGE);
+    return Promise.resolve();
+  }
+  if (command !== 'upload-sourcemaps' || !dir) {
+    return Promise.reject(new SentryError(USAGE));
+  }
+  // Invalid options throw, turn that into a rejection
+  return Promise.resolve().then(() => uploadSourceMaps(dir, args));
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(null, (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { toAppPath } from '../src/packages/utils/path';
+
+/** A file uploaded as a release artifact */
+export interface Artifact {
+  /** Path of the file on disk */
+  file: string;
+  /** Name the file is uploaded as, matching the filenames the SDK reports */
+  name: string;
+  /** Name of the source map of a JavaScript file */
+  sourceMap?: string;
+}
+
+// //# sourceMappingURL=index.js.map
+const SOURCE_MAPPING_URL = /\/\/[#@]\s*sourceMappingURL=(\S+)\s*$/;
+
+/** Lists all files below the directory */
+function walk(dir: string): string[] {
+  const files: string[] = [];
+  fs.readdirSync(dir).forEach((entry) => {
+    if (entry === 'node_modules') {
+      return;
+    }
+    const file = path.join(dir, entry);
+    if (fs.statSync(file).isDirectory()) {
+      files.push(...walk(file));
+    } else {
+      files.push(file);
+    }
+  });
+  return files;
+}
+
+/** Finds the source map of a JavaScript file, if it has one */
+function findSourceMap(file: string): string | undefined {
+  const content = fs.readFileSync(file, 'utf8').trim();
+  const match = SOURCE_MAPPING_URL.exec(
+    content.slice(content.lastIndexOf('\n') + 1),
+  );
+  if (match && match[1].indexOf('data:') !== 0) {
+    const referenced = path.resolve(path.dirname(file), match[1]);
+    if (fs.existsSync(referenced)) {
+      return referenced;
+    }
+  }
+
+  const sibling = `${file}.map`;
+  return fs.existsSync(sibling) ? sibling : undefined;
+}
+
+/**
+ * Turns a path relative to the build output into the filename the SDK
+ * reports, once frames are rewritten by the `RewriteFrames` integration.
+ */
+export function toArtifactName(relativePath: string, prefix: string): string {
+  return `${prefix}${toAppPath(relativePath.split(path.sep).join('/'))}`;
+}
+
+/**
+ * Pairs every JavaScript file of the build output with its source map.
+ * Files without a source map are skipped.
+ *
+ * @param dir The build output directory
+ * @param prefix Prefix of artifact names, `app:///` by default in the SDK
+ */
+export function collectArtifacts(dir: string, prefix: string): Artifact[] {
+  const root = path.resolve(dir);
+  const artifacts: Artifact[] = [];
+  const sourceMaps: string[] = [];
+
+  walk(root)
+    .filter((file) => path.extname(file) === '.js')
+    .forEach((file) => {
+      const sourceMap = findSourceMap(file);
+      if (!sourceMap) {
+        return;
+      }
+
+      const sourceMapName = toArtifactName(
+        path.relative(root, sourceMap),
+        prefix,
+      );
+      artifacts.push({
+        file,
+        name: toArtifactName(path.relative(root, file), prefix),
+        sourceMap: sourceMapName,
+      });
+      if (sourceMaps.indexOf(sourceMap) === -1) {
+        sourceMaps.push(sourceMap);
+        artifacts.push({ file: sourceMap, name: sourceMapName });
+      }
+    });
+
+  return artifacts;
+}
@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+import { URL } from 'url';
+
+import { SentryError } from '../src/packages/utils/error';
+
+import { Artifact } from './sourcemaps';
+
+/** Where and how artifacts are uploaded */
+export interface UploadOptions {
+  /** Prefix of Sentry web API endpoints, ending with `/api/` */
+  apiBase: string;
+  authToken: string;
+  org: string;
+  project: string;
+  release: string;
+  dist?: string;
+}
+
+/** Response of the Sentry web API */
+interface ApiResponse {
+  statusCode: number;
+  body: string;
+}
+
+/** Sends a request to the Sentry web API */
+function request(
+  url: string,
+  authToken: string,
+  headers: Record<string, string>,
+  body: Buffer,
+): Promise<ApiResponse> {
+  const target = new URL(url);
+  const transport = target.protocol === 'http:' ? http : https;
+
+  return new Promise<ApiResponse>((resolve, reject) => {
+    const req = transport.request(
+      target,
+      {
+        method: 'POST',
+        headers: {
+          ...headers,
+          Authorization: `Bearer ${authToken}`,
+          'Content-Length': String(body.length),
+        },
+      },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () =>
+          resolve({
+            statusCode: res.statusCode || 0,
+            body: Buffer.concat(chunks).toString('utf8'),
+          }),
+        );
+      },
+    );
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+/** Builds a `multipart/form-data` body */
+function createFormData(
+  boundary: string,
+  fields: Record<string, string | undefined>,
+  file: { filename: string; content: Buffer },
+): Buffer {
+  const parts: Buffer[] = [];
+  Object.keys(fields).forEach((name) => {
+    const value = fields[name];
+    if (value !== undefined) {
+      parts.push(
+        Buffer.from(
+          `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`,
+        ),
+      );
+    }
+  });
+  parts.push(
+    Buffer.from(
+      `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${file.filename}"\r\nContent-Type: application/octet-stream\r\n\r\n`,
+    ),
+    file.content,
+    Buffer.from(`\r\n--${boundary}--\r\n`),
+  );
+  return Buffer.concat(parts);
+}
+
+/**
+ * Creates the release, unless it exists already.
+ */
+export function createRelease(options: UploadOptions): Promise<void> {
+  const url = `${options.apiBase}0/organizations/${encodeURIComponent(
+    options.org,
+  )}/releases/`;
+  const body = Buffer.from(
+    JSON.stringify({ version: options.release, projects: [options.project] }),
+  );
+
+  return request(
+    url,
+    options.authToken,
+    { 'Content-Type': 'application/json' },
+    body,
+  ).then(({ statusCode, body: response }) => {
+    if (statusCode >= 300 && statusCode !== 409) {
+      throw new SentryError(
+        `Could not create release ${options.release}: ${statusCode} ${response}`,
+      );
+    }
+  });
+}
+
+/**
+ * Uploads a single artifact to the release.
+ *
+ * @returns Whether the artifact has been uploaded, false if it existed already.
+ */
+export function uploadArtifact(
+  options: UploadOptions,
+  artifact: Artifact,
+): Promise<boolean> {
+  const url = `${options.apiBase}0/projects/${encodeURIComponent(
+    options.org,
+  )}/${encodeURIComponent(options.project)}/releases/${encodeURIComponent(
+    options.release,
+  )}/files/`;
+  const boundary = `----wx-sentry-${Date.now().toString(16)}`;
+  const body = createFormData(
+    boundary,
+    {
+      name: artifact.name,
+      dist: options.dist,
+      header: artifact.sourceMap && `Sourcemap:${artifact.sourceMap}`,
+    },
+    {
+      filename: path.basename(artifact.file),
+      content: fs.readFileSync(artifact.file),
+    },
+  );
+
+  return request(
+    url,
+    options.authToken,
+    { 'Content-Type': `multipart/form-data; boundary=${boundary}` },
+    body,
+  ).then(({ statusCode, body: response }) => {
+    if (statusCode === 409) {
+      return false;
+    }
+    if (statusCode >= 300) {
+      throw new SentryError(
+        `Could not upload ${artifact.name}: ${statusCode} ${response}`,
+      );
+    }
+    return true;
+  });
+}
@@ -0,0 +1,93 @@
+/**
+ * Reference cloud function for `CloudFunctionTransport`.
+ *
+ * Receives `{ url, body }` from the mini program, posts the envelope to Sentry
+ * and answers with the status code and headers of the response.
+ *
+ * The `SENTRY_DSN` environment variable of the function is required: only
+ * envelopes of that project are forwarded. Every client of the mini program
+ * can call the function, so it must never forward requests to other hosts.
+ */
+const http = require('http');
+const https = require('https');
+
+/** Regular expression used to parse a Dsn. */
+const DSN_REGEX = /^(?:(\w+):)\/\/(?:(\w+)(?::(\w+))?@)([\w.-]+)(?::(\d+))?\/(.+)/;
+
+/** Matches the envelope endpoint of any Sentry project */
+const ENVELOPE_ENDPOINT_REGEX = /^https?:\/\/[^/]+\/(?:.+\/)?api\/\d+\/envelope\/(?:\?.*)?$/;
+
+/** Returns the envelope endpoint of the given Dsn */
+function getEnvelopeEndpoint(dsn) {
+  const match = DSN_REGEX.exec(dsn);
+  if (!match) {
+    throw new Error(`Invalid SENTRY_DSN: ${dsn}`);
+  }
+  const [, protocol, , , host, port, lastPath] = match;
+  const split = lastPath.split('/');
+  const projectId = split.pop();
+  const path = split.length ? `/${split.join('/')}` : '';
+  return `${protocol}://${host}${
+    port ? `:${port}` : ''
+  }${path}/api/${projectId}/envelope/`;
+}
+
+/** Says if envelopes may be forwarded to the given url */
+function isAllowed(url, dsn) {
+  if (typeof url !== 'string' || !ENVELOPE_ENDPOINT_REGEX.test(url)) {
+    return false;
+  }
+  return url.indexOf(getEnvelopeEndpoint(dsn)) === 0;
+}
+
+/** Posts the body to the url */
+function post(url, body) {
+  return new Promise((resolve, reject) => {
+    const request = (url.indexOf('https:') === 0 ? https : http).request(
+      url,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-sentry-envelope',
+          'Content-Length': Buffer.byteLength(body),
+        },
+      },
+      (response) => {
+        // Drain the response, we only care about its status and headers
+        response.resume();
+        response.on('end', () => {
+          resolve({
+            statusCode: response.statusCode,
+            headers: {
+              'x-sentry-rate-limits':
+                response.headers['x-sentry-rate-limits'] || null,
+              'retry-after': response.headers['retry-after'] || null,
+            },
+          });
+        });
+      },
+    );
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+exports.main = async (event) => {
+  const dsn = process.env.SENTRY_DSN;
+  if (!dsn) {
+    console.error('SENTRY_DSN is not set, refusing to forward envelopes');
+    // Keep the envelopes in the mini program until the function is configured
+    return { statusCode: 503, headers: {} };
+  }
+
+  const { url, body } = event;
+  if (!isAllowed(url, dsn) || typeof body !== 'string') {
+    return { statusCode: 400, headers: {} };
+  }
+  try {
+    return await post(url, body);
+  } catch (e) {
+    // Let the SDK retry later
+    return { statusCode: 502, headers: {} };
+  }
+};
@@ -5,6 +5,7 @@ import {
   Options,
   Severity,
   Transport,
+  TransportClass,
 } from './packages/types';
 
 import { eventFromException, eventFromMessage } from './eventbuilder';
@@ -39,6 +40,62 @@ export interface MiniAppOptions extends Options {
    * 默认上报的wx.getSystemInfo字段
    */
   defaultReportSystemInfos?: false | string[];
+
+  /**
+   * A URL on your own server that all envelopes are sent to instead of the
+   * Sentry host. Useful because `wx.request` can only reach domains that are
+   * whitelisted in the mini program admin console.
+   *
+   * The DSN is included in every envelope header, so a relay behind the tunnel
+   * can forward the envelope to the right Sentry project.
+   */
+  tunnel?: string;
+
+  /**
+   * Transport class used to send events to Sentry, instead of the default
+   * {@link RequestTransport}. It gets constructed with `transportOptions`,
+   * `dsn` and `tunnel`.
+   */
+  transport?: TransportClass<Transport>;
+
+  /**
+   * Maximum size of a serialized event in bytes. Larger events are trimmed
+   * before sending, by dropping the oldest breadcrumbs, then truncating
+   * `extra` values and finally removing stack frames.
+   * Set to `0` to disable trimming. Defaults to 200kB.
+   */
+  maxEventBytes?: number;
+
+  /**
+   * Number of frames nearest to the crash kept in every stack trace.
+   * Frames between these and {@link MiniAppOptions.stackOuterFrames} are
+   * omitted. Defaults to 40.
+   */
+  stackInnerFrames?: number;
+
+  /**
+   * Number of outermost frames kept in every stack trace. Defaults to 10.
+   */
+  stackOuterFrames?: number;
+
+  /**
+   * Collapse recursive runs of frames, e.g. nested `setData` callbacks, into
+   * a single occurrence before trimming stack traces. Defaults to true.
+   */
+  collapseRecursion?: boolean;
+
+  /**
+   * Patterns of frame filenames which always belong to the mini app.
+   * Takes precedence over {@link MiniAppOptions.inAppExclude} and the built-in
+   * list of WeChat framework files.
+   */
+  inAppInclude?: Array<string | RegExp>;
+
+  /**
+   * Patterns of frame filenames which never belong to the mini app, in
+   * addition to the built-in list of WeChat framework files.
+   */
+  inAppExclude?: Array<string | RegExp>;
 }
 
 /**
@@ -70,7 +127,9 @@ export class MiniAppBackend extends BaseBackend<MiniAppOptions> {
    * @inheritDoc
    */
   protected _setupTransport(): Transport {
-    return new RequestTransport({
+    const transport = this._options.transport || RequestTransport;
+    return new transport({
+      tunnel: this._options.tunnel,
       ...this._options.transportOptions,
       dsn: this._options.dsn!,
     });
@@ -1,8 +1,14 @@
 import { BaseClient, Scope } from './packages/core';
-import { Event, EventHint } from './packages/types';
+import { ClientReport, Event, EventHint } from './packages/types';
 
 import { MiniAppBackend, MiniAppOptions } from './backend';
+import {
+  DEFAULT_MAX_EVENT_BYTES,
+  trimEvent,
+  trimStacktraces,
+} from './eventtrimmer';
 import { Breadcrumbs } from './integrations';
+import { applyInAppPatterns } from './parsers';
 import { SDK_NAME, SDK_VERSION } from './version';
 
 /**
@@ -21,6 +27,15 @@ export class MiniAppClient extends BaseClient<MiniAppBackend, MiniAppOptions> {
     super(MiniAppBackend, options);
   }
 
+  /**
+   * Returns the counts of all events discarded since the SDK was initialized,
+   * grouped by reason and category.
+   */
+  public getClientReports(): ClientReport | undefined {
+    const transport = this._getBackend().getTransport();
+    return transport.getClientReports && transport.getClientReports();
+  }
+
   /**
    * @inheritDoc
    */
@@ -43,7 +58,27 @@ export class MiniAppClient extends BaseClient<MiniAppBackend, MiniAppOptions> {
       version: SDK_VERSION,
     };
 
-    return super._prepareEvent(event, scope, hint);
+    return super._prepareEvent(event, scope, hint).then((prepared) => {
+      if (!prepared) {
+        return prepared;
+      }
+      const {
+        inAppInclude,
+        inAppExclude,
+        stackInnerFrames,
+        stackOuterFrames,
+        collapseRecursion,
+      } = this._options;
+      if (inAppInclude || inAppExclude) {
+        applyInAppPatterns(prepared, inAppInclude, inAppExclude);
+      }
+      return trimStacktraces(
+        prepared,
+        stackInnerFrames,
+        stackOuterFrames,
+        collapseRecursion !== false,
+      );
+    });
   }
 
   /**
@@ -54,6 +89,11 @@ export class MiniAppClient extends BaseClient<MiniAppBackend, MiniAppOptions> {
     if (integration) {
       integration.addSentryBreadcrumb(event);
     }
+
+    const { maxEventBytes = DEFAULT_MAX_EVENT_BYTES } = this._options;
+    if (maxEventBytes > 0) {
+      trimEvent(event, maxEventBytes);
+    }
     super._sendEvent(event);
   }
 }
@@ -6,11 +6,14 @@ import {
   isErrorEvent,
   isEvent,
   isPlainObject,
+  isWxApiError,
+  WxApiErrorLike,
 } from './packages/utils';
 
 import {
   eventFromPlainObject,
   eventFromStacktrace,
+  eventFromWxApiError,
   prepareFramesForEvent,
 } from './parsers';
 import { computeStackTrace } from './tracekit';
@@ -88,6 +91,10 @@ export function eventFromUnknownInput(
     event = eventFromStacktrace(computeStackTrace(exception as Error));
     return event;
   }
+  if (isWxApiError(exception)) {
+    // Failures of wx APIs carry the API name and reason in `errMsg`
+    return eventFromWxApiError(exception as WxApiErrorLike, syntheticException);
+  }
   if (isPlainObject(exception) || isEvent(exception)) {
     // If it is plain Object or Event, serialize it manually and extract options
     // This will allow us to group events based on top-level keys
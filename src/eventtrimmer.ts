@@ -0,0 +1,325 @@
+import { Event, StackFrame, Stacktrace } from './packages/types';
+import { logger, truncate, utf8Length } from './packages/utils';
+
+/** Default value of {@link MiniAppOptions.maxEventBytes}, 200kB */
+export const DEFAULT_MAX_EVENT_BYTES = 200 * 1024;
+
+/** Number of characters an `extra` value is truncated to */
+const MAX_EXTRA_VALUE_LENGTH = 1024;
+
+/** Number of frames always kept on both ends of a stack trace */
+const MIN_FRAMES_PER_END = 5;
+
+/** Default value of {@link MiniAppOptions.stackInnerFrames} */
+const DEFAULT_INNER_FRAMES = 40;
+
+/** Default value of {@link MiniAppOptions.stackOuterFrames} */
+const DEFAULT_OUTER_FRAMES = 10;
+
+/** Maximum number of frames in a recursive run that gets collapsed */
+const MAX_RECURSION_LENGTH = 5;
+
+/** Serialized size of the given value in bytes, encoded as UTF-8 */
+function jsonSize(value: unknown): number {
+  return utf8Length(JSON.stringify(value) || '');
+}
+
+/**
+ * Stores a trimming remark at the given path of `event._meta`, using the
+ * format Sentry uses to display removed data. Earlier remarks win, as they
+ * describe the data before any trimming.
+ */
+function setMeta(
+  event: Event,
+  path: string[],
+  meta: { [key: string]: unknown },
+): void {
+  let node: { [key: string]: any } = (event._meta = event._meta || {});
+  path.forEach((key) => {
+    node = node[key] = node[key] || {};
+  });
+  node[''] = { ...meta, ...node[''] };
+}
+
+/**
+ * Drops the oldest breadcrumbs until the event fits.
+ *
+ * @returns The new size of the event.
+ */
+function trimBreadcrumbs(event: Event, size: number, maxBytes: number): number {
+  const breadcrumbs = event.breadcrumbs;
+  if (!breadcrumbs || !breadcrumbs.length) {
+    return size;
+  }
+
+  const length = breadcrumbs.length;
+  let newSize = size;
+  while (newSize > maxBytes && breadcrumbs.length) {
+    // One byte for the comma separating breadcrumbs
+    newSize -= jsonSize(breadcrumbs.shift()) + 1;
+  }
+
+  setMeta(event, ['breadcrumbs'], { len: length });
+  return jsonSize(event);
+}
+
+/**
+ * Truncates `extra` values, largest first, until the event fits.
+ *
+ * @returns The new size of the event.
+ */
+function trimExtra(event: Event, size: number, maxBytes: number): number {
+  const extra = event.extra;
+  if (!extra) {
+    return size;
+  }
+
+  const sizes: { [key: string]: number } = {};
+  Object.keys(extra).forEach((key) => {
+    sizes[key] = jsonSize(extra[key]);
+  });
+
+  let newSize = size;
+  Object.keys(sizes)
+    .sort((a, b) => sizes[b] - sizes[a])
+    .forEach((key) => {
+      if (newSize <= maxBytes) {
+        return;
+      }
+      const value = extra[key];
+      const serialized =
+        typeof value === 'string' ? value : JSON.stringify(value) || '';
+      if (serialized.length <= MAX_EXTRA_VALUE_LENGTH) {
+        return;
+      }
+      extra[key] = truncate(serialized, MAX_EXTRA_VALUE_LENGTH);
+      newSize += jsonSize(extra[key]) - sizes[key];
+      setMeta(event, ['extra', key], {
+        len: serialized.length,
+        rem: [['!limit', 'x']],
+      });
+    });
+
+  return jsonSize(event);
+}
+
+/** A stack trace of the event, together with its path and frames before trimming */
+interface FramesTarget {
+  stacktrace: Stacktrace;
+  frames: StackFrame[];
+  omitted?: [number, number];
+  path: string[];
+}
+
+/** Collects all stack traces of the event which have frames */
+function getFramesTargets(event: Event): FramesTarget[] {
+  const targets: FramesTarget[] = [];
+  const addTarget = (stacktrace: Stacktrace | undefined, path: string[]) => {
+    if (stacktrace && stacktrace.frames && stacktrace.frames.length) {
+      targets.push({
+        stacktrace,
+        frames: stacktrace.frames,
+        omitted: stacktrace.frames_omitted,
+        path,
+      });
+    }
+  };
+  ((event.exception && event.exception.values) || []).forEach(
+    (exception, index) => {
+      addTarget(exception.stacktrace, [
+        'exception',
+        'values',
+        `${index}`,
+        'stacktrace',
+      ]);
+    },
+  );
+  addTarget(event.stacktrace, ['stacktrace']);
+  return targets;
+}
+
+/**
+ * Keeps the given number of outermost and innermost frames and omits the
+ * frames in between. Frames omitted earlier stay omitted, as
+ * `frames_omitted` can only describe a single range.
+ */
+function omitMiddleFrames(
+  event: Event,
+  target: FramesTarget,
+  outer: number,
+  inner: number,
+): void {
+  const { stacktrace, frames, omitted, path } = target;
+  let front = outer;
+  let back = inner;
+  let length = frames.length;
+  if (omitted) {
+    front = Math.min(outer, omitted[0]);
+    back = Math.min(inner, frames.length - omitted[0]);
+    length += omitted[1] - omitted[0];
+  }
+  if (frames.length <= front + back) {
+    return;
+  }
+
+  stacktrace.frames = [
+    ...frames.slice(0, front),
+    ...frames.slice(frames.length - back),
+  ];
+  stacktrace.frames_omitted = [front, length - back];
+  setMeta(event, [...path, 'frames'], { len: length });
+}
+
+/**
+ * Removes frames from the middle of all stack traces, halving the number of
+ * kept frames until the event fits.
+ *
+ * @returns The new size of the event.
+ */
+function trimFrames(event: Event, size: number, maxBytes: number): number {
+  const targets = getFramesTargets(event);
+
+  let newSize = size;
+  let perEnd = Math.max(0, ...targets.map((target) => target.frames.length));
+  perEnd = Math.floor(perEnd / 4);
+
+  while (newSize > maxBytes && perEnd >= MIN_FRAMES_PER_END) {
+    targets.forEach((target) =>
+      omitMiddleFrames(event, target, perEnd, perEnd),
+    );
+    newSize = jsonSize(event);
+    perEnd = Math.floor(perEnd / 2);
+  }
+
+  return newSize;
+}
+
+/** Says if two frames point to the same location */
+function isSameFrame(a: StackFrame, b: StackFrame): boolean {
+  return (
+    a.filename === b.filename &&
+    a.function === b.function &&
+    a.lineno === b.lineno &&
+    a.colno === b.colno
+  );
+}
+
+/**
+ * Collapses consecutive repetitions of the same frames, e.g. `a b a b a b`,
+ * into a single occurrence.
+ */
+function collapseRecursion(frames: StackFrame[]): StackFrame[] {
+  const collapsed: StackFrame[] = [];
+  const isSameRun = (a: number, b: number, length: number): boolean => {
+    for (let i = 0; i < length; i++) {
+      if (!isSameFrame(frames[a + i], frames[b + i])) {
+        return false;
+      }
+    }
+    return true;
+  };
+
+  let index = 0;
+  while (index < frames.length) {
+    let run = 1;
+    let repetitions = 1;
+    for (
+      ;
+      run <= MAX_RECURSION_LENGTH && index + run * 2 <= frames.length;
+      run++
+    ) {
+      while (
+        index + (repetitions + 1) * run <= frames.length &&
+        isSameRun(index, index + repetitions * run, run)
+      ) {
+        repetitions += 1;
+      }
+      if (repetitions > 1) {
+        break;
+      }
+    }
+
+    if (repetitions > 1) {
+      collapsed.push(...frames.slice(index, index + run));
+      index += repetitions * run;
+    } else {
+      collapsed.push(frames[index]);
+      index += 1;
+    }
+  }
+  return collapsed;
+}
+
+/**
+ * Trims all stack traces of the event, keeping the frames nearest to the crash
+ * and the outermost frames. The frames in between are omitted and recorded in
+ * `frames_omitted`.
+ *
+ * @param event The event to trim, modified in place.
+ * @param inner Number of frames nearest to the crash to keep.
+ * @param outer Number of outermost frames to keep.
+ * @param collapse Whether recursive runs of frames are collapsed first, which
+ * is recorded as a remark on the stack trace.
+ * @returns The trimmed event.
+ */
+export function trimStacktraces(
+  event: Event,
+  inner: number = DEFAULT_INNER_FRAMES,
+  outer: number = DEFAULT_OUTER_FRAMES,
+  collapse: boolean = true,
+): Event {
+  getFramesTargets(event).forEach((target) => {
+    // Frames omitted earlier are counted on the frames before collapsing
+    if (collapse && !target.omitted) {
+      const frames = collapseRecursion(target.frames);
+      if (frames.length < target.frames.length) {
+        // Recorded on the stack trace, so the length of the frames and
+        // `frames_omitted` both describe the collapsed frames
+        setMeta(event, target.path, {
+          rem: [['!collapse_recursion', 'x']],
+        });
+        target.frames = target.stacktrace.frames = frames;
+      }
+    }
+    omitMiddleFrames(event, target, outer, inner);
+  });
+  return event;
+}
+
+/**
+ * Trims the event until its serialized size is within the given budget.
+ *
+ * The oldest breadcrumbs are dropped first, then `extra` values are truncated
+ * and finally frames are removed from the middle of stack traces. Every trim
+ * is recorded in `event._meta`, so Sentry can show what has been removed.
+ *
+ * @param event The event to trim, modified in place.
+ * @param maxBytes Maximum size of the serialized event in bytes.
+ * @returns The trimmed event.
+ */
+export function trimEvent(event: Event, maxBytes: number): Event {
+  let size: number;
+  try {
+    size = jsonSize(event);
+  } catch (_oO) {
+    // The event is not serializable, leave it to the transport
+    return event;
+  }
+
+  if (size > maxBytes) {
+    size = trimBreadcrumbs(event, size, maxBytes);
+  }
+  if (size > maxBytes) {
+    size = trimExtra(event, size, maxBytes);
+  }
+  if (size > maxBytes) {
+    size = trimFrames(event, size, maxBytes);
+  }
+
+  if (size > maxBytes && __LOG__) {
+    logger.warn(
+      `Event ${event.event_id} is still ${size} bytes after trimming, the limit is ${maxBytes}`,
+    );
+  }
+  return event;
+}
@@ -1,6 +1,8 @@
 export {
   Breadcrumb,
   BreadcrumbHint,
+  ClientReport,
+  Outcome,
   Request,
   SdkInfo,
   Event,
@@ -12,6 +14,9 @@ export {
   Stacktrace,
   Status,
   Thread,
+  Transport,
+  TransportClass,
+  TransportOptions,
   User,
 } from './packages/types';
 
@@ -43,6 +48,7 @@ export { eventFromException, eventFromMessage } from './eventbuilder';
 export {
   defaultIntegrations,
   defaultReportSystemInfos,
+  getClientReports,
   init,
   lastEventId,
   flush,
@@ -0,0 +1,173 @@
+import { addGlobalEventProcessor, getCurrentHub } from '../packages/hub';
+import { Event, Integration } from '../packages/types';
+import { logger } from '../packages/utils';
+
+/** JSDoc */
+interface AppLifecycleOptions {
+  /** Add breadcrumbs when the app moves to the foreground or background */
+  breadcrumbs: boolean;
+}
+
+/** Where the app has been opened from, as given by the launch or show options */
+interface EntryOptions {
+  path?: string;
+  query?: Record<string, any>;
+  scene?: number;
+}
+
+/**
+ * Tracks `wx.onAppShow` and `wx.onAppHide`, and keeps the `app` context up
+ * to date with the launch time, the foreground state, the time spent in the
+ * background and the options the app has last been shown with. The
+ * `Launch Options` extra set by `init` is refreshed on every show as well.
+ */
+export class AppLifecycle implements Integration {
+  /**
+   * @inheritDoc
+   */
+  public static id: string = 'AppLifecycle';
+
+  /**
+   * @inheritDoc
+   */
+  public name: string = AppLifecycle.id;
+
+  /** JSDoc */
+  private readonly _options: AppLifecycleOptions;
+
+  /** When the SDK has been set up, close to the launch of the app */
+  private _launchTime: number = Date.now();
+
+  /** JSDoc */
+  private _inForeground: boolean = true;
+
+  /** When the app has last moved to the background */
+  private _hiddenAt?: number;
+
+  /** Time spent in the background before the last show, in milliseconds */
+  private _backgroundTime: number = 0;
+
+  /** JSDoc */
+  private _entry: EntryOptions = {};
+
+  /**
+   * @inheritDoc
+   */
+  public constructor(options?: Partial<AppLifecycleOptions>) {
+    this._options = {
+      breadcrumbs: true,
+      ...options,
+    };
+  }
+
+  /**
+   * @inheritDoc
+   */
+  public setupOnce(): void {
+    this._launchTime = Date.now();
+    try {
+      this._entry = pickEntryOptions(wx.getLaunchOptionsSync());
+    } catch (_oO) {
+      // no-empty
+    }
+
+    if (typeof wx.onAppShow === 'function') {
+      wx.onAppShow((options) => this._onShow(options));
+    }
+    if (typeof wx.onAppHide === 'function') {
+      wx.onAppHide(() => this._onHide());
+    }
+
+    addGlobalEventProcessor((event: Event) => {
+      const self = getCurrentHub().getIntegration(AppLifecycle);
+      if (self) {
+        return self.process(event);
+      }
+      return event;
+    });
+  }
+
+  /**
+   * Adds the `app` context to the event.
+   */
+  public process(event: Event): Event {
+    const now = Date.now();
+    const backgroundTime =
+      this._backgroundTime +
+      (this._hiddenAt === undefined ? 0 : now - this._hiddenAt);
+
+    return {
+      ...event,
+      contexts: {
+        ...event.contexts,
+        app: {
+          app_start_time: new Date(this._launchTime).toISOString(),
+          in_foreground: this._inForeground,
+          background_time: backgroundTime,
+          ...this._entry,
+          ...(event.contexts && event.contexts.app),
+        },
+      },
+    };
+  }
+
+  /** JSDoc */
+  private _onShow(options: EntryOptions): void {
+    // Any show refreshes the entry, the first one also follows a cold start
+    this._entry = pickEntryOptions(options);
+    getCurrentHub().configureScope((scope) => {
+      scope.setExtra('Launch Options', options);
+    });
+    if (this._inForeground) {
+      return;
+    }
+
+    this._inForeground = true;
+    if (this._hiddenAt !== undefined) {
+      this._backgroundTime += Date.now() - this._hiddenAt;
+      this._hiddenAt = undefined;
+    }
+    this._addBreadcrumb('foreground');
+  }
+
+  /** JSDoc */
+  private _onHide(): void {
+    if (!this._inForeground) {
+      return;
+    }
+
+    this._inForeground = false;
+    this._hiddenAt = Date.now();
+    this._addBreadcrumb('background');
+  }
+
+  /** JSDoc */
+  private _addBreadcrumb(state: 'foreground' | 'background'): void {
+    if (!this._options.breadcrumbs) {
+      return;
+    }
+    if (__LOG__) {
+      logger.log(`App moved to the ${state}`);
+    }
+    getCurrentHub().addBreadcrumb({
+      category: 'app.lifecycle',
+      type: 'navigation',
+      data: {
+        state,
+        ...(state === 'foreground' && this._entry),
+      },
+    });
+  }
+}
+
+/** Keeps the options telling where the app has been opened from */
+function pickEntryOptions(options?: EntryOptions): EntryOptions {
+  if (!options) {
+    return {};
+  }
+  return {
+    path: options.path,
+    query: options.query,
+    scene: options.scene,
+  };
+}
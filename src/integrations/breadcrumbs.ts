@@ -2,15 +2,23 @@ import { getCurrentHub } from '../packages/hub';
 import { Event, Integration, Severity } from '../packages/types';
 import {
   addInstrumentationHandler,
+  dropUndefinedKeys,
   getEventDescription,
   safeJoin,
 } from '../packages/utils';
 
+import { MiniAppOptions } from '../backend';
+
 interface BreadcrumbsOptions {
   sentry: boolean;
   console: boolean;
   request: boolean;
   navigation: boolean;
+  /**
+   * Interactions with pages and components, such as taps and input.
+   * Only the listed keys of the `dataset` of the target are recorded.
+   */
+  ui: boolean | { dataset?: string[] };
 }
 
 /**
@@ -39,6 +47,7 @@ export class Breadcrumbs implements Integration {
       console: true,
       request: true,
       navigation: true,
+      ui: true,
       ...options,
     };
   }
@@ -70,6 +79,7 @@ export class Breadcrumbs implements Integration {
    *  - Console API
    *  - Request API
    *  - Navigation API
+   *  - Event handlers of pages and components
    */
   public setupOnce(): void {
     if (this._options.console) {
@@ -96,6 +106,17 @@ export class Breadcrumbs implements Integration {
         type: 'navigation',
       });
     }
+    if (this._options.ui) {
+      const datasetKeys =
+        (typeof this._options.ui === 'object' && this._options.ui.dataset) ||
+        [];
+      addInstrumentationHandler({
+        callback: (arg: any) => {
+          Breadcrumbs._uiBreadcrumb(arg, datasetKeys);
+        },
+        type: 'ui',
+      });
+    }
   }
 
   /**
@@ -135,6 +156,13 @@ export class Breadcrumbs implements Integration {
       return;
     }
 
+    const client = getCurrentHub().getClient();
+    const tunnel = client && (client.getOptions() as MiniAppOptions).tunnel;
+    if (tunnel && fetchData.url === tunnel && fetchData.method === 'POST') {
+      // Same goes for envelopes sent through the tunnel
+      return;
+    }
+
     if (error) {
       getCurrentHub().addBreadcrumb(
         {
@@ -173,14 +201,56 @@ export class Breadcrumbs implements Integration {
     type: string;
     from: string;
     to: string;
+    error?: WechatMiniprogram.GeneralCallbackResult;
   }): void {
+    const { error } = handlerData;
     getCurrentHub().addBreadcrumb({
       type: 'navigation',
       category: handlerData.type,
       data: {
         from: handlerData.from,
         to: handlerData.to,
+        ...(error && { error: error.errMsg }),
       },
+      ...(error && { level: Severity.Error }),
     });
   }
+
+  /**
+   * Creates breadcrumbs from event handlers of pages and components
+   */
+  private static _uiBreadcrumb(
+    handlerData: {
+      type: string;
+      handler: string;
+      route?: string;
+      id?: string;
+      dataset?: { [key: string]: any };
+    },
+    datasetKeys: string[],
+  ): void {
+    const { type, handler, route, id, dataset } = handlerData;
+    const data: { [key: string]: any } = {};
+    datasetKeys.forEach((key) => {
+      if (dataset && key in dataset) {
+        data[key] = dataset[key];
+      }
+    });
+
+    getCurrentHub().addBreadcrumb(
+      {
+        category: `ui.${type}`,
+        message: `${handler}${id ? ` #${id}` : ''}`,
+        data: dropUndefinedKeys({
+          route,
+          handler,
+          id: id || undefined,
+          dataset: Object.keys(data).length ? data : undefined,
+        }),
+      },
+      {
+        event: handlerData,
+      },
+    );
+  }
 }
@@ -0,0 +1,136 @@
+import { addGlobalEventProcessor, getCurrentHub } from '../packages/hub';
+import {
+  Event,
+  EventHint,
+  ExtendedError,
+  Integration,
+} from '../packages/types';
+import { isError, isPlainObject, logger, normalize } from '../packages/utils';
+
+/** Properties every error has, which are already part of the exception */
+const NATIVE_KEYS = [
+  'name',
+  'message',
+  'stack',
+  'line',
+  'column',
+  'fileName',
+  'lineNumber',
+  'columnNumber',
+  'cause',
+  'errors',
+];
+
+/** JSDoc */
+interface ExtraErrorDataOptions {
+  /** Depth the extracted data is normalized to. Defaults to 3. */
+  depth: number;
+}
+
+/**
+ * Attaches custom properties of the original exception, such as `code`,
+ * `errno` or `requestId`, to the event under the `error_data` context.
+ */
+export class ExtraErrorData implements Integration {
+  /**
+   * @inheritDoc
+   */
+  public static id: string = 'ExtraErrorData';
+
+  /**
+   * @inheritDoc
+   */
+  public name: string = ExtraErrorData.id;
+
+  /** JSDoc */
+  private readonly _options: ExtraErrorDataOptions;
+
+  /** JSDoc */
+  public constructor(options?: Partial<ExtraErrorDataOptions>) {
+    this._options = {
+      depth: 3,
+      ...options,
+    };
+  }
+
+  /**
+   * @inheritDoc
+   */
+  public setupOnce(): void {
+    addGlobalEventProcessor((event: Event, hint?: EventHint) => {
+      const self = getCurrentHub().getIntegration(ExtraErrorData);
+      if (self) {
+        return self.enhanceEventWithErrorData(event, hint);
+      }
+      return event;
+    });
+  }
+
+  /**
+   * Attaches the data extracted from the original exception to the event.
+   */
+  public enhanceEventWithErrorData(event: Event, hint?: EventHint): Event {
+    if (!hint || !isError(hint.originalException)) {
+      return event;
+    }
+
+    const errorData = ExtraErrorData._extractErrorData(
+      hint.originalException as ExtendedError,
+    );
+    if (!errorData) {
+      return event;
+    }
+
+    const normalized = normalize(errorData, this._options.depth);
+    if (!isPlainObject(normalized)) {
+      return event;
+    }
+    return {
+      ...event,
+      contexts: {
+        ...event.contexts,
+        error_data: { ...normalized },
+      },
+    };
+  }
+
+  /**
+   * Extracts non-standard enumerable properties and the `toJSON()` output of
+   * the error. Nested errors are turned into strings.
+   */
+  private static _extractErrorData(
+    error: ExtendedError,
+  ): { [key: string]: unknown } | null {
+    let result: { [key: string]: unknown } | null = null;
+    try {
+      Object.keys(error)
+        // `toJSON` is used below, copying it would make it replace all the data
+        .filter((key) => NATIVE_KEYS.indexOf(key) === -1 && key !== 'toJSON')
+        .forEach((key) => {
+          const value = error[key];
+          result = {
+            ...result,
+            [key]: isError(value) ? value.toString() : value,
+          };
+        });
+
+      if (typeof error.toJSON === 'function') {
+        const serialized = error.toJSON();
+        if (isPlainObject(serialized)) {
+          Object.keys(serialized).forEach((key) => {
+            const value = serialized[key];
+            result = {
+              ...result,
+              [key]: isError(value) ? value.toString() : value,
+            };
+          });
+        }
+      }
+    } catch (e) {
+      if (__LOG__) {
+        logger.error('Unable to extract extra data from the Error object:', e);
+      }
+    }
+    return result;
+  }
+}
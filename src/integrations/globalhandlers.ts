@@ -3,18 +3,64 @@ import { Event, Integration, Severity } from '../packages/types';
 import {
   addExceptionMechanism,
   addInstrumentationHandler,
+  dropUndefinedKeys,
   getCurrentPageRoute,
   isPrimitive,
   logger,
+  OnErrorDetails,
 } from '../packages/utils';
 
 import { eventFromUnknownInput } from '../eventbuilder';
 import { shouldIgnoreOnError } from '../helpers';
 
+/** Number of frames collected by the engine for every error */
+const STACK_TRACE_LIMIT = 200;
+
 /** JSDoc */
 interface GlobalHandlersIntegrations {
   onError: boolean;
   onUnhandledRejection: boolean;
+  /**
+   * Capture pages which do not exist, e.g. broken links of share cards. Off
+   * by default: with a listener, WeChat no longer shows its own "page not
+   * found" screen, so the app has to redirect by itself.
+   */
+  onPageNotFound: boolean;
+  /** Capture failures of `wx.navigateTo` and the other navigation APIs */
+  onNavigationFail: boolean;
+}
+
+/** Data of a navigation API call, as triggered when it fails */
+interface NavigationFailData {
+  type: string;
+  from: string;
+  to?: string;
+  error?: any;
+  handled: boolean;
+  syntheticException: Error;
+}
+
+/** Marks an error as captured, so it is not captured again as a rejection */
+function markAsCaptured(error: unknown): void {
+  if (isPrimitive(error)) {
+    return;
+  }
+  try {
+    Object.defineProperty(error, '__sentry_captured__', {
+      enumerable: false,
+      value: true,
+    });
+  } catch (_oO) {
+    // no-empty
+  }
+}
+
+/** Says if the error has already been captured */
+function isCaptured(error: unknown): boolean {
+  return (
+    !isPrimitive(error) &&
+    !!(error as { __sentry_captured__?: boolean }).__sentry_captured__
+  );
 }
 
 /** Global handlers */
@@ -39,10 +85,18 @@ export class GlobalHandlers implements Integration {
   private _onUnhandledRejectionHandlerInstalled: boolean = false;
 
   /** JSDoc */
-  public constructor(options?: GlobalHandlersIntegrations) {
+  private _onPageNotFoundHandlerInstalled: boolean = false;
+
+  /** JSDoc */
+  private _onNavigationFailHandlerInstalled: boolean = false;
+
+  /** JSDoc */
+  public constructor(options?: Partial<GlobalHandlersIntegrations>) {
     this._options = {
       onError: true,
       onUnhandledRejection: true,
+      onPageNotFound: false,
+      onNavigationFail: true,
       ...options,
     };
   }
@@ -50,7 +104,8 @@ export class GlobalHandlers implements Integration {
    * @inheritDoc
    */
   public setupOnce(): void {
-    Error.stackTraceLimit = 50;
+    // Collect deep stacks, the client keeps the innermost and outermost frames
+    Error.stackTraceLimit = STACK_TRACE_LIMIT;
 
     if (this._options.onError) {
       if (__LOG__) {
@@ -65,6 +120,20 @@ export class GlobalHandlers implements Integration {
       }
       this._installGlobalOnUnhandledRejectionHandler();
     }
+
+    if (this._options.onPageNotFound) {
+      if (__LOG__) {
+        logger.log('Global Handler attached: onPageNotFound');
+      }
+      this._installGlobalOnPageNotFoundHandler();
+    }
+
+    if (this._options.onNavigationFail) {
+      if (__LOG__) {
+        logger.log('Global Handler attached: onNavigationFail');
+      }
+      this._installGlobalOnNavigationFailHandler();
+    }
   }
 
   /** JSDoc */
@@ -74,7 +143,10 @@ export class GlobalHandlers implements Integration {
     }
 
     addInstrumentationHandler({
-      callback: (data: { error: any }) => {
+      callback: (data: {
+        error: any;
+        data: Pick<OnErrorDetails, 'origin' | 'wrapper' | 'location'>;
+      }) => {
         const error = data.error;
         const currentHub = getCurrentHub();
         const hasIntegration = currentHub.getIntegration(GlobalHandlers);
@@ -92,6 +164,7 @@ export class GlobalHandlers implements Integration {
         );
 
         addExceptionMechanism(event, {
+          data: dropUndefinedKeys(data.data),
           handled: false,
           type: 'onError',
         });
@@ -130,7 +203,8 @@ export class GlobalHandlers implements Integration {
         const currentHub = getCurrentHub();
         const hasIntegration = currentHub.getIntegration(GlobalHandlers);
 
-        if (!hasIntegration || shouldIgnoreOnError()) {
+        // Failed navigations are captured before their promise rejects
+        if (!hasIntegration || shouldIgnoreOnError() || isCaptured(error)) {
           return true;
         }
 
@@ -161,6 +235,96 @@ export class GlobalHandlers implements Integration {
     this._onUnhandledRejectionHandlerInstalled = true;
   }
 
+  /** JSDoc */
+  private _installGlobalOnPageNotFoundHandler(): void {
+    if (this._onPageNotFoundHandlerInstalled) {
+      return;
+    }
+
+    addInstrumentationHandler({
+      callback: (res: WechatMiniprogram.App.PageNotFoundOption) => {
+        const currentHub = getCurrentHub();
+        const hasIntegration = currentHub.getIntegration(GlobalHandlers);
+
+        if (!hasIntegration || shouldIgnoreOnError()) {
+          return;
+        }
+
+        currentHub.captureEvent({
+          message: `Page not found: ${res.path}`,
+          level: Severity.Error,
+          contexts: {
+            page_not_found: {
+              path: res.path,
+              query: res.query,
+              is_entry_page: res.isEntryPage,
+            },
+          },
+          tags: {
+            is_entry_page: String(res.isEntryPage),
+          },
+          fingerprint: ['page-not-found', res.path],
+        });
+      },
+      type: 'pageNotFound',
+    });
+
+    this._onPageNotFoundHandlerInstalled = true;
+  }
+
+  /** JSDoc */
+  private _installGlobalOnNavigationFailHandler(): void {
+    if (this._onNavigationFailHandlerInstalled) {
+      return;
+    }
+
+    addInstrumentationHandler({
+      callback: (data: NavigationFailData) => {
+        // Navigations are triggered before the call as well
+        if (!data.error) {
+          return;
+        }
+
+        const currentHub = getCurrentHub();
+        const hasIntegration = currentHub.getIntegration(GlobalHandlers);
+
+        if (!hasIntegration || shouldIgnoreOnError()) {
+          return;
+        }
+
+        const client = currentHub.getClient();
+        const event = eventFromUnknownInput(
+          data.error,
+          data.syntheticException,
+          {
+            attachStacktrace: client && client.getOptions().attachStacktrace,
+          },
+        );
+
+        addExceptionMechanism(event, {
+          data: dropUndefinedKeys({ from: data.from, to: data.to }),
+          handled: data.handled,
+          type: 'navigation',
+        });
+
+        event.extra = {
+          ...event.extra,
+          // The stack is limited to 10 pages, which makes `navigateTo` fail
+          'Page Stack': getCurrentPages().map((page) => page.route),
+        };
+
+        currentHub.captureEvent(event, {
+          originalException: data.error,
+          syntheticException: data.syntheticException,
+        });
+        markAsCaptured(data.error);
+      },
+      type: 'navigation',
+    });
+
+    this._onNavigationFailHandlerInstalled = true;
+  }
+
   /**
    * This function creates an Event from an TraceKitStackTrace that has part of it missing.
    */
@@ -2,3 +2,9 @@ export { GlobalHandlers } from './globalhandlers';
 export { TryCatch } from './trycatch';
 export { Breadcrumbs } from './breadcrumbs';
 export { LinkedErrors } from './linkederrors';
+export { RewriteFrames } from './rewriteframes';
+export { Subpackages } from './subpackages';
+export { ExtraErrorData } from './extraerrordata';
+export { PageLifecycle } from './pagelifecycle';
+export { AppLifecycle } from './applifecycle';
+export { MemoryWarning } from './memorywarning';
@@ -6,9 +6,15 @@ import {
   ExtendedError,
   Integration,
 } from '../packages/types';
-import { isInstanceOf } from '../packages/utils';
+import {
+  extractExceptionKeysForMessage,
+  isInstanceOf,
+  isPlainObject,
+  isWxApiError,
+  WxApiErrorLike,
+} from '../packages/utils';
 
-import { exceptionFromStacktrace } from '../parsers';
+import { exceptionFromStacktrace, exceptionFromWxApiError } from '../parsers';
 import { computeStackTrace } from '../tracekit';
 
 const DEFAULT_KEY = 'cause';
@@ -64,32 +70,119 @@ export class LinkedErrors implements Integration {
     if (
       !event.exception ||
       !event.exception.values ||
+      !event.exception.values.length ||
       !hint ||
       !isInstanceOf(hint.originalException, Error)
     ) {
       return event;
     }
-    const linkedErrors = this._walkErrorTree(
+    const values = event.exception.values;
+    event.exception.values = this._walkErrorTree(
       hint.originalException as ExtendedError,
-      this._key,
+      values[values.length - 1],
+      0,
+      values,
+      [hint.originalException],
     );
-    event.exception.values = [...linkedErrors, ...event.exception.values];
     return event;
   }
 
   /**
-   * @inheritDoc
+   * Collects the errors linked to the given one through the configured key
+   * and the `errors` of an `AggregateError`, depth first. Linked exceptions
+   * go in front of their parent, and are given `exception_id` and `parent_id`
+   * so Sentry can render the tree.
+   *
+   * @param error The error whose linked errors are collected
+   * @param exception The exception created from the error
+   * @param exceptionId Identifier of the exception
+   * @param stack All exceptions collected so far
+   * @param seen Errors visited so far, so cycles such as `a.cause = b` and `b.cause = a` end
    */
   private _walkErrorTree(
     error: ExtendedError,
-    key: string,
-    stack: Exception[] = [],
+    exception: Exception,
+    exceptionId: number,
+    stack: Exception[],
+    seen: unknown[],
   ): Exception[] {
-    if (!isInstanceOf(error[key], Error) || stack.length + 1 >= this._limit) {
-      return stack;
+    const children: Array<{ source: string; value: unknown }> = [];
+    if (error[this._key] !== undefined && error[this._key] !== null) {
+      children.push({ source: this._key, value: error[this._key] });
+    }
+    if (Array.isArray(error.errors)) {
+      error.errors.forEach((value: unknown, index: number) => {
+        children.push({ source: `errors[${index}]`, value });
+      });
+    }
+
+    let exceptions = stack;
+    for (const { source, value } of children) {
+      if (exceptions.length >= this._limit) {
+        break;
+      }
+      if (typeof value === 'object' && seen.indexOf(value) !== -1) {
+        continue;
+      }
+      seen.push(value);
+
+      exception.mechanism = {
+        type: 'generic',
+        handled: true,
+        ...exception.mechanism,
+        ...(Array.isArray(error.errors) && { is_exception_group: true }),
+        exception_id: exceptionId,
+      };
+
+      const child = LinkedErrors._exceptionFromLinkedValue(value);
+      const childId = exceptions.length;
+      child.mechanism = {
+        handled: true,
+        ...child.mechanism,
+        type: 'chained',
+        source,
+        exception_id: childId,
+        parent_id: exceptionId,
+      };
+
+      exceptions = [child, ...exceptions];
+      if (isInstanceOf(value, Error)) {
+        exceptions = this._walkErrorTree(
+          value as ExtendedError,
+          child,
+          childId,
+          exceptions,
+          seen,
+        );
+      }
+    }
+    return exceptions;
+  }
+
+  /**
+   * Creates an exception from a linked value. Values which are not errors,
+   * such as wx `errMsg` objects and strings, become synthetic exceptions.
+   */
+  private static _exceptionFromLinkedValue(value: unknown): Exception {
+    if (isInstanceOf(value, Error)) {
+      return exceptionFromStacktrace(computeStackTrace(value));
+    }
+
+    const mechanism = { type: 'chained', handled: true, synthetic: true };
+    if (isWxApiError(value)) {
+      return {
+        ...exceptionFromWxApiError(value as WxApiErrorLike),
+        mechanism,
+      };
     }
-    const stacktrace = computeStackTrace(error[key]);
-    const exception = exceptionFromStacktrace(stacktrace);
-    return this._walkErrorTree(error[key], key, [exception, ...stack]);
+    return {
+      type: 'Error',
+      value: isPlainObject(value)
+        ? `Object captured as cause with keys: ${extractExceptionKeysForMessage(
+            value,
+          )}`
+        : String(value),
+      mechanism,
+    };
   }
 }
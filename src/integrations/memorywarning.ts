@@ -0,0 +1,167 @@
+import { addGlobalEventProcessor, getCurrentHub } from '../packages/hub';
+import { Event, Integration, Severity } from '../packages/types';
+import { addInstrumentationHandler, logger } from '../packages/utils';
+
+/** JSDoc */
+interface MemoryWarningOptions {
+  /** Capture an event for memory warnings, in addition to the breadcrumb */
+  captureEvent: boolean;
+  /** Minimum time between two captured events, in milliseconds */
+  minInterval: number;
+}
+
+/** A navigation, as triggered by the navigation instrumentation */
+interface Navigation {
+  type: string;
+  from: string;
+  to?: string;
+  error?: unknown;
+}
+
+/**
+ * Android trim levels, iOS does not tell the level.
+ * @see https://developers.weixin.qq.com/miniprogram/dev/api/device/memory/wx.onMemoryWarning.html
+ */
+const LEVEL_NAMES: { [level: number]: string } = {
+  5: 'TRIM_MEMORY_RUNNING_MODERATE',
+  10: 'TRIM_MEMORY_RUNNING_LOW',
+  15: 'TRIM_MEMORY_RUNNING_CRITICAL',
+};
+
+/**
+ * Records `wx.onMemoryWarning` as breadcrumbs and marks the `device` context
+ * of later events, so crashes show whether the app was under memory pressure.
+ */
+export class MemoryWarning implements Integration {
+  /**
+   * @inheritDoc
+   */
+  public static id: string = 'MemoryWarning';
+
+  /**
+   * @inheritDoc
+   */
+  public name: string = MemoryWarning.id;
+
+  /** JSDoc */
+  private readonly _options: MemoryWarningOptions;
+
+  /** Level of the last warning, undefined on iOS */
+  private _lastLevel?: number;
+
+  /** When the last warning has been received */
+  private _lastWarningAt?: number;
+
+  /** When the last event has been captured */
+  private _lastCapturedAt?: number;
+
+  /** JSDoc */
+  private _lastNavigation?: Navigation;
+
+  /**
+   * @inheritDoc
+   */
+  public constructor(options?: Partial<MemoryWarningOptions>) {
+    this._options = {
+      captureEvent: false,
+      minInterval: 60 * 1000,
+      ...options,
+    };
+  }
+
+  /**
+   * @inheritDoc
+   */
+  public setupOnce(): void {
+    if (typeof wx.onMemoryWarning !== 'function') {
+      if (__LOG__) {
+        logger.warn('wx.onMemoryWarning is not supported');
+      }
+      return;
+    }
+
+    wx.onMemoryWarning((res) => this._onMemoryWarning(res && res.level));
+
+    addInstrumentationHandler({
+      callback: (navigation: Navigation) => {
+        // Failures are triggered after the call, keep the call itself
+        if (!navigation.error) {
+          this._lastNavigation = navigation;
+        }
+      },
+      type: 'navigation',
+    });
+
+    addGlobalEventProcessor((event: Event) => {
+      const self = getCurrentHub().getIntegration(MemoryWarning);
+      if (self) {
+        return self.process(event);
+      }
+      return event;
+    });
+  }
+
+  /**
+   * Adds the last memory warning to the `device` context.
+   */
+  public process(event: Event): Event {
+    if (this._lastWarningAt === undefined) {
+      return event;
+    }
+
+    return {
+      ...event,
+      contexts: {
+        ...event.contexts,
+        device: {
+          ...(event.contexts && event.contexts.device),
+          low_memory: true,
+          memory_warning_level: this._lastLevel,
+          memory_warning_time: new Date(this._lastWarningAt).toISOString(),
+        },
+      },
+    };
+  }
+
+  /** JSDoc */
+  private _onMemoryWarning(level?: number): void {
+    const now = Date.now();
+    this._lastLevel = level;
+    this._lastWarningAt = now;
+
+    const currentHub = getCurrentHub();
+    const levelName = level === undefined ? undefined : LEVEL_NAMES[level];
+    currentHub.addBreadcrumb({
+      category: 'device.memory',
+      level: Severity.Warning,
+      message: 'Memory warning',
+      data: { level, level_name: levelName },
+    });
+
+    if (
+      !this._options.captureEvent ||
+      (this._lastCapturedAt !== undefined &&
+        now - this._lastCapturedAt < this._options.minInterval)
+    ) {
+      return;
+    }
+    this._lastCapturedAt = now;
+
+    let pageStack: string[] = [];
+    try {
+      pageStack = getCurrentPages().map((page) => page.route);
+    } catch (_oO) {
+      // no-empty
+    }
+
+    currentHub.captureEvent({
+      message: `Memory warning${levelName ? `: ${levelName}` : ''}`,
+      level: Severity.Warning,
+      extra: {
+        'Page Stack': pageStack,
+        'Last Navigation': this._lastNavigation,
+      },
+      fingerprint: ['memory-warning', String(level)],
+    });
+  }
+}
@@ -0,0 +1,212 @@
+import { captureException, withScope } from '../packages/core';
+import { getCurrentHub } from '../packages/hub';
+import { Event, Integration, Scope } from '../packages/types';
+import {
+  addExceptionMechanism,
+  addExceptionTypeValue,
+  fillTopLevel,
+} from '../packages/utils';
+
+import { ignoreNextOnError } from '../helpers';
+
+/** JSDoc */
+interface PageLifecycleOptions {
+  /** Page lifecycle hooks whose errors are captured */
+  hooks: string[];
+  /**
+   * Also wrap the other functions of pages, such as event handlers. Errors
+   * they throw are then captured and no longer reach their callers.
+   */
+  methods: boolean;
+  /** Wrap the lifetimes of components, and their methods with `methods` */
+  components: boolean;
+  /** Add breadcrumbs for `onLoad`, `onShow`, `onHide` and `onUnload` */
+  breadcrumbs: boolean;
+}
+
+/** Options of `Page` and `Component`, whose functions get wrapped */
+type Definition = { [key: string]: any };
+
+const DEFAULT_HOOKS = [
+  'onLoad',
+  'onShow',
+  'onReady',
+  'onHide',
+  'onUnload',
+  'onPullDownRefresh',
+  'onReachBottom',
+  'onShareAppMessage',
+  'onShareTimeline',
+  'onPageScroll',
+  'onTabItemTap',
+  'onResize',
+];
+
+/** Hooks recorded as breadcrumbs */
+const BREADCRUMB_HOOKS = ['onLoad', 'onShow', 'onHide', 'onUnload'];
+
+/** Lifetimes components may declare outside of `lifetimes` */
+const COMPONENT_LIFETIMES = [
+  'created',
+  'attached',
+  'ready',
+  'moved',
+  'detached',
+  'error',
+];
+
+/**
+ * Wraps the global `Page` and `Component` constructors, so errors thrown by
+ * lifecycle hooks, and optionally methods, are captured with the page route
+ * and hook, instead of reaching `wx.onError` as strings without context.
+ */
+export class PageLifecycle implements Integration {
+  /**
+   * @inheritDoc
+   */
+  public static id: string = 'PageLifecycle';
+
+  /**
+   * @inheritDoc
+   */
+  public name: string = PageLifecycle.id;
+
+  /** JSDoc */
+  private readonly _options: PageLifecycleOptions;
+
+  /**
+   * @inheritDoc
+   */
+  public constructor(options?: Partial<PageLifecycleOptions>) {
+    this._options = {
+      hooks: DEFAULT_HOOKS,
+      methods: false,
+      components: true,
+      breadcrumbs: true,
+      ...options,
+    };
+  }
+
+  /**
+   * Replaces the global constructors. Only pages and components registered
+   * after `Sentry.init` are instrumented.
+   */
+  public setupOnce(): void {
+    if (typeof Page === 'function') {
+      const wrapPage = (definition: Definition): Definition =>
+        this._wrapPage(definition);
+      Page = fillTopLevel(Page, (original) => {
+        return function (this: any, definition: Definition): void {
+          original.call(this, wrapPage(definition));
+        };
+      }) as WechatMiniprogram.Page.Constructor;
+    }
+
+    if (this._options.components && typeof Component === 'function') {
+      const wrapComponent = (definition: Definition): Definition =>
+        this._wrapComponent(definition);
+      Component = fillTopLevel(Component, (original) => {
+        return function (this: any, definition: Definition): string {
+          return original.call(this, wrapComponent(definition));
+        };
+      }) as WechatMiniprogram.Component.Constructor;
+    }
+  }
+
+  /** Wraps the hooks and methods of a page */
+  private _wrapPage(definition: Definition): Definition {
+    if (!definition) {
+      return definition;
+    }
+    const { hooks, methods } = this._options;
+    Object.keys(definition).forEach((name) => {
+      if (
+        typeof definition[name] === 'function' &&
+        (methods || hooks.indexOf(name) !== -1)
+      ) {
+        definition[name] = this._wrapHook(definition[name], name);
+      }
+    });
+    return definition;
+  }
+
+  /** Wraps the lifetimes, page lifetimes and methods of a component */
+  private _wrapComponent(definition: Definition): Definition {
+    if (!definition) {
+      return definition;
+    }
+    const wrapAll = (functions?: Definition): void => {
+      Object.keys(functions || {}).forEach((name) => {
+        if (functions && typeof functions[name] === 'function') {
+          functions[name] = this._wrapHook(functions[name], name);
+        }
+      });
+    };
+
+    if (this._options.methods) {
+      wrapAll(definition.methods);
+    }
+    wrapAll(definition.lifetimes);
+    wrapAll(definition.pageLifetimes);
+    COMPONENT_LIFETIMES.forEach((name) => {
+      if (typeof definition[name] === 'function') {
+        definition[name] = this._wrapHook(definition[name], name);
+      }
+    });
+    return definition;
+  }
+
+  /**
+   * Captures errors thrown by a hook, with a mechanism naming the route of
+   * the page or component it is called on. Hooks may be shared by several
+   * pages, so the mechanism is built on every call instead of going through
+   * `wrap`, which keeps the wrapper it builds first.
+   */
+  private _wrapHook(
+    original: (...args: any[]) => any,
+    hook: string,
+  ): (...args: any[]) => any {
+    const breadcrumb =
+      this._options.breadcrumbs && BREADCRUMB_HOOKS.indexOf(hook) !== -1;
+
+    return function (this: any, ...args: any[]): any {
+      const route: string | undefined = this && (this.route || this.is);
+
+      if (breadcrumb) {
+        getCurrentHub().addBreadcrumb({
+          category: 'lifecycle',
+          message: `${route} ${hook}`,
+          data: { route, hook },
+        });
+      }
+
+      try {
+        return original.apply(this, args);
+      } catch (ex) {
+        ignoreNextOnError();
+
+        withScope((scope: Scope) => {
+          scope.addEventProcessor((event: Event) => {
+            const processedEvent = { ...event };
+            addExceptionTypeValue(processedEvent, undefined, undefined);
+            addExceptionMechanism(processedEvent, {
+              data: {
+                function: hook,
+                ...(route && { route }),
+              },
+              handled: true,
+              type: 'instrument',
+            });
+            processedEvent.extra = {
+              ...processedEvent.extra,
+              arguments: args,
+            };
+            return processedEvent;
+          });
+
+          captureException(ex);
+        });
+      }
+    };
+  }
+}
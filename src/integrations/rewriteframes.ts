@@ -0,0 +1,119 @@
+import { addGlobalEventProcessor, getCurrentHub } from '../packages/hub';
+import { Event, Integration, StackFrame, Stacktrace } from '../packages/types';
+import {
+  basename,
+  getPluginId,
+  normalizePath,
+  relative,
+  toAppPath,
+} from '../packages/utils';
+
+/** Rewrites a single frame, returns the frame to keep */
+type StackFrameIteratee = (frame: StackFrame) => StackFrame;
+
+// Frames which don't point to a file
+const NOT_A_FILE = /^(?:\[native code\]|<anonymous>|native)$/;
+
+/**
+ * Rewrites the filename of every frame to a stable `app:///` prefix, so
+ * uploaded source maps match whatever platform and base library the error
+ * comes from.
+ *
+ * - `https://usr/app-service.js` becomes `app:///app-service.js`
+ * - `weapp:///pages/index/index.js` becomes `app:///pages/index/index.js`
+ * - `appservice/pages/index/index.js` becomes `app:///pages/index/index.js`
+ *
+ * Frames of plugins are left untouched, their files would otherwise collide
+ * with the ones of the mini app.
+ */
+export class RewriteFrames implements Integration {
+  /**
+   * @inheritDoc
+   */
+  public static id: string = 'RewriteFrames';
+
+  /**
+   * @inheritDoc
+   */
+  public name: string = RewriteFrames.id;
+
+  /** Path frames are made relative to */
+  private readonly _root?: string;
+
+  /** Prefix of rewritten filenames */
+  private readonly _prefix: string = 'app:///';
+
+  /** Rewrites a single frame */
+  private readonly _iteratee: StackFrameIteratee = (frame: StackFrame) => {
+    if (
+      !frame.filename ||
+      NOT_A_FILE.test(frame.filename) ||
+      getPluginId(frame.filename)
+    ) {
+      return frame;
+    }
+
+    const path = toAppPath(frame.filename);
+    const base = this._root
+      ? relative(this._root, path)
+      : path || basename(frame.filename);
+    frame.filename = `${this._prefix}${base}`;
+    return frame;
+  };
+
+  /**
+   * @param options.root Path filenames are made relative to, after the protocol, host and `appservice/` are removed
+   * @param options.prefix Prefix of rewritten filenames, defaults to `app:///`
+   * @param options.iteratee Rewrites a single frame, replaces the default behaviour
+   */
+  public constructor(
+    options: {
+      root?: string;
+      prefix?: string;
+      iteratee?: StackFrameIteratee;
+    } = {},
+  ) {
+    if (options.root) {
+      this._root = normalizePath(options.root).replace(/^\/+/, '');
+    }
+    if (options.prefix) {
+      this._prefix = options.prefix;
+    }
+    if (options.iteratee) {
+      this._iteratee = options.iteratee;
+    }
+  }
+
+  /**
+   * @inheritDoc
+   */
+  public setupOnce(): void {
+    addGlobalEventProcessor((event: Event) => {
+      const self = getCurrentHub().getIntegration(RewriteFrames);
+      if (self) {
+        return self.process(event);
+      }
+      return event;
+    });
+  }
+
+  /** Rewrites the frames of all stack traces of the event */
+  public process(event: Event): Event {
+    if (event.exception && Array.isArray(event.exception.values)) {
+      event.exception.values.forEach((exception) => {
+        this._processStacktrace(exception.stacktrace);
+      });
+    }
+    this._processStacktrace(event.stacktrace);
+    return event;
+  }
+
+  /** Rewrites the frames of a single stack trace */
+  private _processStacktrace(stacktrace?: Stacktrace): void {
+    if (stacktrace && Array.isArray(stacktrace.frames)) {
+      stacktrace.frames = stacktrace.frames.map((frame) =>
+        this._iteratee(frame),
+      );
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { addGlobalEventProcessor, getCurrentHub } from '../packages/hub';
+import { Event, Integration, StackFrame } from '../packages/types';
+import { getPluginId, toAppPath } from '../packages/utils';
+
+/** A subpackage as declared in the `subpackages` array of `app.json` */
+interface SubpackageConfig {
+  root: string;
+}
+
+// Every subpackage is bundled into its own `<root>/app-service.js` on devices
+const SUBPACKAGE_BUNDLE = /^(.+)\/app-service\.js$/;
+
+/**
+ * Tags events with the subpackage or plugin the culprit frame belongs to, so
+ * ownership rules can route them to the team owning it, e.g.
+ * `tags.subpackage:packageA #team-a`.
+ *
+ * Subpackage roots are read from the `subpackages` option, which takes the
+ * array declared in `app.json`. Without it, roots are guessed from the
+ * `<root>/app-service.js` bundles subpackages are compiled into.
+ */
+export class Subpackages implements Integration {
+  /**
+   * @inheritDoc
+   */
+  public static id: string = 'Subpackages';
+
+  /**
+   * @inheritDoc
+   */
+  public name: string = Subpackages.id;
+
+  /** Known subpackage roots, longest first */
+  private readonly _roots: string[];
+
+  /**
+   * @param options.subpackages The `subpackages` array of `app.json`
+   */
+  public constructor(options: { subpackages?: SubpackageConfig[] } = {}) {
+    this._roots = (options.subpackages || [])
+      .map(({ root }) => toAppPath(root || ''))
+      .filter((root) => !!root)
+      .sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * @inheritDoc
+   */
+  public setupOnce(): void {
+    addGlobalEventProcessor((event: Event) => {
+      const self = getCurrentHub().getIntegration(Subpackages);
+      if (self) {
+        return self.process(event);
+      }
+      return event;
+    });
+  }
+
+  /** Tags the event with the owner of its culprit frame */
+  public process(event: Event): Event {
+    const frame = Subpackages._getCulpritFrame(event);
+    if (!frame || !frame.filename) {
+      return event;
+    }
+
+    const plugin = getPluginId(frame.filename);
+    if (plugin) {
+      event.tags = { plugin, ...event.tags };
+      return event;
+    }
+
+    const subpackage = this._getSubpackage(toAppPath(frame.filename));
+    if (subpackage) {
+      event.tags = { subpackage, ...event.tags };
+    }
+    return event;
+  }
+
+  /** Finds the root of the subpackage the path belongs to */
+  private _getSubpackage(path: string): string | undefined {
+    if (this._roots.length) {
+      for (const root of this._roots) {
+        if (path.indexOf(`${root}/`) === 0) {
+          return root;
+        }
+      }
+      return undefined;
+    }
+
+    const bundle = SUBPACKAGE_BUNDLE.exec(path);
+    return bundle ? bundle[1] : undefined;
+  }
+
+  /**
+   * Finds the frame the error has been thrown from, preferring frames of the
+   * mini app over the ones of WeChat and libraries.
+   */
+  private static _getCulpritFrame(event: Event): StackFrame | undefined {
+    const exceptions = (event.exception && event.exception.values) || [];
+    const stacktraces = [
+      ...exceptions.map((exception) => exception.stacktrace),
+      event.stacktrace,
+    ].reverse();
+
+    for (const stacktrace of stacktraces) {
+      const frames = (stacktrace && stacktrace.frames) || [];
+      if (!frames.length) {
+        continue;
+      }
+      for (let i = frames.length - 1; i >= 0; i--) {
+        if (frames[i].in_app !== false) {
+          return frames[i];
+        }
+      }
+      return frames[frames.length - 1];
+    }
+    return undefined;
+  }
+}
@@ -7,11 +7,21 @@ const SENTRY_API_VERSION = '7';
 export class API {
   /** The internally used Dsn object. */
   private readonly _dsnObject: Dsn;
-  /** Create a new instance of API */
-  public constructor(public dsn: DsnLike) {
+  /**
+   * Create a new instance of API
+   *
+   * @param dsn The Dsn identifying the project
+   * @param tunnel An optional first-party URL all envelopes are sent to instead of Sentry
+   */
+  public constructor(public dsn: DsnLike, public tunnel?: string) {
     this._dsnObject = new Dsn(dsn);
   }
 
+  /** Returns the Dsn object. */
+  public getDsn(): Dsn {
+    return this._dsnObject;
+  }
+
   /** Returns the prefix to construct Sentry ingestion API endpoints. */
   public getBaseApiEndpoint(): string {
     const dsn = this._dsnObject;
@@ -38,10 +48,14 @@ export class API {
 
   /**
    * Returns the envelope endpoint URL with auth in the query string.
+   * When a tunnel is configured, the tunnel URL is returned as is.
    *
    * Sending auth as part of the query string and not as custom HTTP headers avoids CORS preflight requests.
    */
   public getEnvelopeEndpointWithUrlEncodedAuth(): string {
+    if (this.tunnel) {
+      return this.tunnel;
+    }
     return `${this._getEnvelopeEndpoint()}?${this._encodedAuth()}`;
   }
 
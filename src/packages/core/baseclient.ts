@@ -6,6 +6,7 @@ import {
   Integration,
   IntegrationClass,
   Options,
+  Outcome,
   SessionStatus,
   Severity,
 } from '../types';
@@ -525,6 +526,7 @@ export abstract class BaseClient<B extends Backend, O extends Options>
       typeof sampleRate === 'number' &&
       Math.random() > sampleRate
     ) {
+      this._recordLostEvent(Outcome.SampleRate, event);
       return Promise.reject(
         new SentryError('This event has been sampled, will not send event.'),
       );
@@ -533,6 +535,7 @@ export abstract class BaseClient<B extends Backend, O extends Options>
     return this._prepareEvent(event, scope, hint)
       .then((prepared) => {
         if (prepared === null) {
+          this._recordLostEvent(Outcome.EventProcessor, event);
           throw new SentryError(
             'An event processor returned null, will not send event.',
           );
@@ -563,6 +566,7 @@ export abstract class BaseClient<B extends Backend, O extends Options>
       })
       .then((processedEvent) => {
         if (processedEvent === null) {
+          this._recordLostEvent(Outcome.BeforeSend, event);
           throw new SentryError(
             '`beforeSend` returned `null`, will not send event.',
           );
@@ -593,6 +597,21 @@ export abstract class BaseClient<B extends Backend, O extends Options>
       });
   }
 
+  /**
+   * Tells the transport that an event has been discarded before it could be sent.
+   * @param reason Why the event has been discarded
+   * @param event The discarded event
+   */
+  protected _recordLostEvent(reason: Outcome, event: Event): void {
+    const transport = this._getBackend().getTransport();
+    if (transport && transport.recordLostEvent) {
+      transport.recordLostEvent(
+        reason,
+        event.type === 'transaction' ? 'transaction' : 'event',
+      );
+    }
+  }
+
   /**
    * Occupies the client with processing and event
    */
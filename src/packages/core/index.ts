@@ -24,7 +24,16 @@ export {
 export { API } from './api';
 export { BaseClient } from './baseclient';
 export { BackendClass, BaseBackend } from './basebackend';
-export { eventToSentryRequest, sessionToSentryRequest } from './request';
+export {
+  createEnvelopeHeaders,
+  envelopeToSentryRequest,
+  eventToEnvelope,
+  eventToEnvelopeItem,
+  eventToSentryRequest,
+  sessionToEnvelope,
+  sessionToEnvelopeItem,
+  sessionToSentryRequest,
+} from './request';
 export { initAndBind, ClientClass } from './sdk';
 
 export * as Integrations from './integrations';
@@ -1,73 +1,123 @@
-import { Event, SentryRequest, Session } from '../types';
+import {
+  Attachment,
+  Envelope,
+  EnvelopeHeaders,
+  EnvelopeItem,
+  Event,
+  SentryRequest,
+  SentryRequestType,
+  Session,
+} from '../types';
+import {
+  createAttachmentEnvelopeItem,
+  createEnvelope,
+  serializeEnvelope,
+} from '../utils';
 
 import { API } from './api';
 
-/** Creates a SentryRequest from an event. */
+/**
+ * Creates the headers shared by all envelopes.
+ *
+ * When a tunnel is used, the relay behind it needs the DSN to know where to
+ * forward the envelope.
+ */
+export function createEnvelopeHeaders(
+  api: API,
+  headers: EnvelopeHeaders = {},
+): EnvelopeHeaders {
+  return {
+    ...headers,
+    sent_at: new Date().toISOString(),
+    ...(api.tunnel && { dsn: api.getDsn().toString() }),
+  };
+}
+
+/** Creates an envelope item from an event. */
+export function eventToEnvelopeItem(event: Event): EnvelopeItem {
+  return {
+    // The content-type is assumed to be 'application/json' and not part of
+    // the current spec for event items, so we don't bloat the request body
+    // with it.
+    //
+    // The length is optional. Since the server can figure this out and would
+    // otherwise refuse events that report the length incorrectly, we decided
+    // not to send the length to avoid problems related to reporting the wrong
+    // size and to reduce request body size.
+    headers: { type: event.type || 'event' },
+    payload: event,
+  };
+}
+
+/** Creates an envelope item from a session. */
+export function sessionToEnvelopeItem(session: Session): EnvelopeItem {
+  return {
+    headers: { type: 'session' },
+    payload: session.toJSON(),
+  };
+}
+
+/** Creates an envelope from an event and its attachments. */
+export function eventToEnvelope(
+  event: Event,
+  api: API,
+  attachments: Attachment[] = [],
+): Envelope {
+  return createEnvelope(
+    createEnvelopeHeaders(api, {
+      event_id: event.event_id,
+      ...(event.sdk && {
+        sdk: { name: event.sdk.name, version: event.sdk.version },
+      }),
+    }),
+    [
+      eventToEnvelopeItem(event),
+      ...attachments.map(createAttachmentEnvelopeItem),
+    ],
+  );
+}
+
+/** Creates an envelope from a session. */
+export function sessionToEnvelope(session: Session, api: API): Envelope {
+  return createEnvelope(createEnvelopeHeaders(api), [
+    sessionToEnvelopeItem(session),
+  ]);
+}
+
+/** Creates a SentryRequest from a session. */
 export function sessionToSentryRequest(
   session: Session,
   api: API,
 ): SentryRequest {
-  const envelopeHeaders = JSON.stringify({
-    sent_at: new Date().toISOString(),
-  });
-  const itemHeaders = JSON.stringify({
-    type: 'session',
-  });
-
   return {
-    body: `${envelopeHeaders}\n${itemHeaders}\n${JSON.stringify(session)}`,
+    body: serializeEnvelope(sessionToEnvelope(session, api)),
     type: 'session',
     url: api.getEnvelopeEndpointWithUrlEncodedAuth(),
   };
 }
 
 /** Creates a SentryRequest from an event. */
-export function eventToSentryRequest(event: Event, api: API): SentryRequest {
-  const useEnvelope = event.type === 'transaction';
-
-  const req: SentryRequest = {
-    body: JSON.stringify(event),
+export function eventToSentryRequest(
+  event: Event,
+  api: API,
+  attachments?: Attachment[],
+): SentryRequest {
+  return {
+    body: serializeEnvelope(eventToEnvelope(event, api, attachments)),
     type: event.type || 'event',
-    url: useEnvelope
-      ? api.getEnvelopeEndpointWithUrlEncodedAuth()
-      : api.getStoreEndpointWithUrlEncodedAuth(),
+    url: api.getEnvelopeEndpointWithUrlEncodedAuth(),
   };
+}
 
-  // https://develop.sentry.dev/sdk/envelopes/
-
-  // Since we don't need to manipulate envelopes nor store them, there is no
-  // exported concept of an Envelope with operations including serialization and
-  // deserialization. Instead, we only implement a minimal subset of the spec to
-  // serialize events inline here.
-  if (useEnvelope) {
-    const envelopeHeaders = JSON.stringify({
-      event_id: event.event_id,
-      // We need to add * 1000 since we divide it by 1000 by default but JS works with ms precision
-      // The reason we use timestampWithMs here is that all clocks across the SDK use the same clock
-      sent_at: new Date().toISOString(),
-    });
-    const itemHeaders = JSON.stringify({
-      type: event.type,
-      // The content-type is assumed to be 'application/json' and not part of
-      // the current spec for transaction items, so we don't bloat the request
-      // body with it.
-      //
-      // content_type: 'application/json',
-      //
-      // The length is optional. It must be the number of bytes in req.Body
-      // encoded as UTF-8. Since the server can figure this out and would
-      // otherwise refuse events that report the length incorrectly, we decided
-      // not to send the length to avoid problems related to reporting the wrong
-      // size and to reduce request body size.
-      //
-      // length: new TextEncoder().encode(req.body).length,
-    });
-    // The trailing newline is optional. We intentionally don't send it to avoid
-    // sending unnecessary bytes.
-    //
-    // const envelope = `${envelopeHeaders}\n${itemHeaders}\n${req.body}\n`;
-    req.body = `${envelopeHeaders}\n${itemHeaders}\n${req.body}`;
-  }
-
-  return req;
+/** Creates a SentryRequest from an envelope holding any number of items. */
+export function envelopeToSentryRequest(
+  envelope: Envelope,
+  type: SentryRequestType,
+  api: API,
+): SentryRequest {
+  return {
+    body: serializeEnvelope(envelope),
+    type,
+    url: api.getEnvelopeEndpointWithUrlEncodedAuth(),
+  };
 }
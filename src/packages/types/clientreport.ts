@@ -0,0 +1,28 @@
+/** Reasons for discarding an event before it reaches Sentry */
+export enum Outcome {
+  /** `beforeSend` returned `null` */
+  BeforeSend = 'before_send',
+  /** An event processor returned `null` */
+  EventProcessor = 'event_processor',
+  /** The request could not be delivered */
+  NetworkError = 'network_error',
+  /** A buffer or queue was full */
+  QueueOverflow = 'queue_overflow',
+  /** The category was rate limited by Sentry */
+  RateLimitBackoff = 'ratelimit_backoff',
+  /** The event was not picked by `sampleRate` */
+  SampleRate = 'sample_rate',
+}
+
+/**
+ * Counts of discarded events
+ * @see https://develop.sentry.dev/sdk/client-reports/
+ */
+export interface ClientReport {
+  timestamp: number;
+  discarded_events: Array<{
+    reason: Outcome;
+    category: string;
+    quantity: number;
+  }>;
+}
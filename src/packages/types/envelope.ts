@@ -0,0 +1,61 @@
+/**
+ * Envelope format
+ * @see https://develop.sentry.dev/sdk/envelopes/
+ */
+
+/** Possible types of items inside an envelope */
+export type EnvelopeItemType =
+  | 'event'
+  | 'transaction'
+  | 'session'
+  | 'attachment'
+  | 'client_report';
+
+/** Headers describing the whole envelope */
+export interface EnvelopeHeaders {
+  [key: string]: unknown;
+  event_id?: string;
+  sent_at?: string;
+  dsn?: string;
+  sdk?: {
+    name: string;
+    version: string;
+  };
+}
+
+/** Headers describing a single envelope item */
+export interface EnvelopeItemHeaders {
+  [key: string]: unknown;
+  type: EnvelopeItemType;
+  /** Number of bytes of the payload encoded as UTF-8 */
+  length?: number;
+  content_type?: string;
+  filename?: string;
+  attachment_type?: string;
+}
+
+/**
+ * Payload of an envelope item.
+ * Attachments carry plain text, all other items carry JSON.
+ */
+export type EnvelopeItemPayload = { [key: string]: any } | string;
+
+/** A single item inside an envelope */
+export interface EnvelopeItem {
+  headers: EnvelopeItemHeaders;
+  payload: EnvelopeItemPayload;
+}
+
+/** An envelope holding any number of items */
+export interface Envelope {
+  headers: EnvelopeHeaders;
+  items: EnvelopeItem[];
+}
+
+/** A file attached to an event */
+export interface Attachment {
+  filename: string;
+  data: string;
+  contentType?: string;
+  attachmentType?: string;
+}
@@ -41,6 +41,8 @@ export interface Event {
   type?: EventType;
   spans?: Span[];
   measurements?: Measurements;
+  /** Remarks about data removed from the event, keyed by its path */
+  _meta?: { [key: string]: any };
 }
 
 /** JSDoc */
@@ -1,7 +1,17 @@
 export { Breadcrumb, BreadcrumbHint } from './breadcrumb';
 export { Client } from './client';
+export { ClientReport, Outcome } from './clientreport';
 export { Context, Contexts } from './context';
 export { Dsn, DsnComponents, DsnLike, DsnProtocol } from './dsn';
+export {
+  Attachment,
+  Envelope,
+  EnvelopeHeaders,
+  EnvelopeItem,
+  EnvelopeItemHeaders,
+  EnvelopeItemPayload,
+  EnvelopeItemType,
+} from './envelope';
 export { ExtendedError } from './error';
 export { Event, EventHint } from './event';
 export { EventProcessor } from './eventprocessor';
@@ -6,4 +6,12 @@ export interface Mechanism {
     [key: string]: string | boolean;
   };
   synthetic?: boolean;
+  /** Property of the parent exception this exception has been found in, e.g. `cause` or `errors[0]` */
+  source?: string;
+  /** Whether the exception holds other exceptions, like an `AggregateError` */
+  is_exception_group?: boolean;
+  /** Identifier of the exception inside its event */
+  exception_id?: number;
+  /** Identifier of the exception this one has been found in */
+  parent_id?: number;
 }
@@ -1,5 +1,13 @@
-/** Possible SentryRequest types that can be used to make a distinction between Sentry features */
-export type SentryRequestType = 'event' | 'transaction' | 'session';
+/**
+ * Possible SentryRequest types that can be used to make a distinction between Sentry features.
+ * `envelope` stands for a batch of items of different types.
+ */
+export type SentryRequestType =
+  | 'event'
+  | 'transaction'
+  | 'session'
+  | 'client_report'
+  | 'envelope';
 
 /** A generic client request. */
 export interface SentryRequest {
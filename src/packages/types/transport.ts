@@ -1,5 +1,7 @@
+import { ClientReport, Outcome } from './clientreport';
 import { DsnLike } from './dsn';
 import { Event } from './event';
+import { SentryRequestType } from './request';
 import { Response } from './response';
 import { Session } from './session';
 
@@ -25,6 +27,19 @@ export interface Transport {
    * @param timeout Number time in ms to wait until the buffer is drained.
    */
   close(timeout?: number): PromiseLike<boolean>;
+
+  /**
+   * Records an event that has been discarded before reaching Sentry.
+   *
+   * @param reason Why the event has been discarded.
+   * @param category Category of the discarded event.
+   */
+  recordLostEvent?(reason: Outcome, category: SentryRequestType): void;
+
+  /**
+   * Returns the counts of all events discarded since the transport was created.
+   */
+  getClientReports?(): ClientReport;
 }
 
 /** JSDoc */
@@ -44,6 +59,67 @@ export interface TransportOptions {
   httpsProxy?: string;
   /** HTTPS proxy certificates path */
   caCerts?: string;
+  /** A first-party URL all envelopes are sent to instead of the Sentry host */
+  tunnel?: string;
   /** Fetch API init parameters */
   fetchParameters?: { [key: string]: string };
+  /** Cloud function used by the `CloudFunctionTransport` */
+  cloudFunction?: {
+    /** Name of the cloud function forwarding envelopes. Defaults to `sentry`. */
+    name?: string;
+    /** Cloud environment the function is deployed to. Defaults to the one passed to `wx.cloud.init`. */
+    env?: string;
+  };
+  /**
+   * Persist requests in wx storage until they are delivered, so they can be
+   * replayed after network failures or on the next launch. Defaults to true.
+   */
+  offlineStorage?: boolean;
+  /** Maximum number of requests kept in wx storage. Defaults to 30. */
+  offlineStorageLimit?: number;
+  /**
+   * Maximum size in bytes of the requests kept in wx storage, which is limited
+   * to 10MB per mini program. Defaults to 2MB.
+   */
+  offlineStorageMaxBytes?: number;
+  /** Retries of requests that failed because of the network or a server error */
+  retry?: {
+    /** Maximum number of retries of a single request. Defaults to 3, set to 0 to disable retries. */
+    maxRetries?: number;
+    /** Delay in ms before the first retry, doubled on every further retry. Defaults to 1000. */
+    baseDelay?: number;
+    /** Upper bound in ms of the delay between two retries. Defaults to 30000. */
+    maxDelay?: number;
+  };
+  /**
+   * Collect events, sessions and transactions and send them together. As an
+   * envelope may hold a single event or transaction only, each of them is
+   * sent in an envelope of its own, and sessions are added to the first one.
+   * Batches are also sent right away when the mini app is hidden or the
+   * transport is closed. Disabled by default.
+   */
+  batch?: {
+    /** Maximum time in ms an item waits for its batch to be sent. Defaults to 5000. */
+    delay?: number;
+    /** Number of items that makes the batch to be sent right away. Defaults to 10. */
+    maxItems?: number;
+  };
+  /**
+   * Send counts of discarded events to Sentry as client reports. Defaults to true.
+   */
+  sendClientReports?: boolean;
+  /**
+   * Time in ms client reports are collected for before being sent. They are
+   * also sent right away when the mini app is hidden. Defaults to 60000.
+   */
+  clientReportInterval?: number;
+  /**
+   * Defer sessions, transactions and events below the `error` level while the
+   * network is poor, and send them once a better network is available. Fatal
+   * and error events are always sent right away. Disabled by default.
+   */
+  networkPolicy?: {
+    /** Network types reported by `wx.getNetworkType` that are considered poor. Defaults to `['none', '2g']`. */
+    deferOn?: string[];
+  };
 }
@@ -0,0 +1,143 @@
+import { Attachment, Envelope, EnvelopeHeaders, EnvelopeItem } from '../types';
+
+import { dropUndefinedKeys } from './object';
+import { utf8Length } from './string';
+
+/**
+ * Creates an envelope.
+ *
+ * @param headers Headers of the whole envelope
+ * @param items Items to put into the envelope
+ */
+export function createEnvelope(
+  headers: EnvelopeHeaders,
+  items: EnvelopeItem[] = [],
+): Envelope {
+  return { headers, items };
+}
+
+/**
+ * Appends an item to an envelope.
+ *
+ * @returns The given envelope.
+ */
+export function addItemToEnvelope(
+  envelope: Envelope,
+  item: EnvelopeItem,
+): Envelope {
+  envelope.items.push(item);
+  return envelope;
+}
+
+/**
+ * Creates an envelope item holding an attachment.
+ * The length header is always set, as the payload may contain newlines.
+ */
+export function createAttachmentEnvelopeItem(
+  attachment: Attachment,
+): EnvelopeItem {
+  return {
+    headers: dropUndefinedKeys({
+      type: 'attachment' as const,
+      length: utf8Length(attachment.data),
+      filename: attachment.filename,
+      content_type: attachment.contentType,
+      attachment_type: attachment.attachmentType,
+    }),
+    payload: attachment.data,
+  };
+}
+
+/**
+ * Serializes an envelope into its newline delimited string representation.
+ *
+ * The trailing newline is optional. We intentionally don't send it to avoid
+ * sending unnecessary bytes.
+ */
+export function serializeEnvelope(envelope: Envelope): string {
+  const lines = [JSON.stringify(envelope.headers)];
+  envelope.items.forEach((item) => {
+    lines.push(JSON.stringify(item.headers), serializePayload(item));
+  });
+  return lines.join('\n');
+}
+
+/**
+ * Parses the string representation of an envelope.
+ * Attachment payloads are kept as strings, all other payloads are parsed as JSON.
+ *
+ * @throws SyntaxError if a header or a JSON payload is malformed.
+ */
+export function parseEnvelope(raw: string): Envelope {
+  let offset = 0;
+  const readLine = (): string => {
+    const end = raw.indexOf('\n', offset);
+    const line = raw.slice(offset, end === -1 ? raw.length : end);
+    offset = end === -1 ? raw.length : end + 1;
+    return line;
+  };
+
+  const envelope = createEnvelope(JSON.parse(readLine()) as EnvelopeHeaders);
+
+  while (offset < raw.length) {
+    const headerLine = readLine();
+    if (!headerLine) {
+      continue;
+    }
+    const headers = JSON.parse(headerLine) as EnvelopeItem['headers'];
+
+    let payload: string;
+    if (typeof headers.length === 'number') {
+      const end = findUtf8Offset(raw, offset, headers.length);
+      payload = raw.slice(offset, end);
+      // Skip the newline following the payload
+      offset = end + 1;
+    } else {
+      payload = readLine();
+    }
+
+    addItemToEnvelope(envelope, {
+      headers,
+      payload: headers.type === 'attachment' ? payload : JSON.parse(payload),
+    });
+  }
+
+  return envelope;
+}
+
+/**
+ * Counts the bytes of the serialized envelope encoded as UTF-8.
+ */
+export function getEnvelopeByteLength(envelope: Envelope): number {
+  return utf8Length(serializeEnvelope(envelope));
+}
+
+/** Serializes the payload of an envelope item */
+function serializePayload(item: EnvelopeItem): string {
+  return typeof item.payload === 'string'
+    ? item.payload
+    : JSON.stringify(item.payload);
+}
+
+/**
+ * Finds the index in `str` where `byteLength` UTF-8 bytes starting at `start` end.
+ */
+function findUtf8Offset(
+  str: string,
+  start: number,
+  byteLength: number,
+): number {
+  let index = start;
+  let bytes = 0;
+  while (index < str.length && bytes < byteLength) {
+    const code = str.charCodeAt(index);
+    if (code >= 0xd800 && code <= 0xdbff && index + 1 < str.length) {
+      bytes += 4;
+      index += 2;
+    } else {
+      bytes += code < 0x80 ? 1 : code < 0x800 ? 2 : 3;
+      index += 1;
+    }
+  }
+  return index;
+}
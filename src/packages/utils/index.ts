@@ -1,4 +1,5 @@
 export * from './dsn';
+export * from './envelope';
 export * from './error';
 export * from './instrument';
 export * from './is';
@@ -6,8 +7,10 @@ export * from './logger';
 export * from './memo';
 export * from './misc';
 export * from './object';
+export * from './onerror';
 export * from './path';
 export * from './promisebuffer';
 export * from './stacktrace';
 export * from './string';
 export * from './time';
+export * from './wxapierror';
@@ -1,7 +1,8 @@
 import { logger } from './logger';
-import { dropUndefinedKeys, fill } from './object';
+import { dropUndefinedKeys, fill, fillTopLevel } from './object';
 import { getFunctionName } from './stacktrace';
 import { getCurrentPageRoute } from './misc';
+import { parseOnErrorMessage } from './onerror';
 
 /** Object describing handler that will be triggered for a given `type` of instrumentation */
 interface InstrumentHandler {
@@ -13,16 +14,21 @@ type InstrumentHandlerType =
   | 'console'
   | 'request'
   | 'navigation'
+  | 'ui'
   | 'error'
-  | 'unhandledRejection';
+  | 'unhandledRejection'
+  | 'pageNotFound';
 type InstrumentHandlerCallback = (data: any) => void;
 
 /**
  * Instrument native APIs to call handlers that can be used to create breadcrumbs, APM spans etc.
  *  - Console API
  *  - Request API
+ *  - Navigation API
+ *  - Event handlers of pages and components
  *  - Error API
  *  - UnhandledRejection API
+ *  - PageNotFound API
  */
 const handlers: {
   [key in InstrumentHandlerType]?: InstrumentHandlerCallback[];
@@ -47,12 +53,18 @@ function instrument(type: InstrumentHandlerType): void {
     case 'navigation':
       instrumentNavigation();
       break;
+    case 'ui':
+      instrumentUi();
+      break;
     case 'error':
       instrumentError();
       break;
     case 'unhandledRejection':
       instrumentUnhandledRejection();
       break;
+    case 'pageNotFound':
+      instrumentPageNotFound();
+      break;
     default:
       if (__LOG__) {
         logger.warn('unknown instrumentation type:', type);
@@ -176,24 +188,71 @@ function instrumentRequest(): void {
   );
 }
 
-function instrumentNavigation(): void {
-  ['navigateTo', 'redirectTo', 'switchTab'].forEach((navigateFunc) => {
-    fill(
-      wx,
-      navigateFunc,
-      function (originalFunc: (options: any) => any): Function {
-        return function (options: any): void {
-          triggerHandlers('navigation', {
-            type: navigateFunc,
-            from: getCurrentPageRoute(),
-            to: options.url,
-          });
-
-          originalFunc.call(wx, options);
-        };
-      },
-    );
+/**
+ * Calls a navigation API and triggers the handlers again when it fails, with
+ * either callbacks or the returned promise.
+ */
+function callNavigation(
+  originalFunc: (options?: any) => any,
+  options: any,
+  handlerData: { type: string; from: string; to?: string },
+): any {
+  // Keep the stack of the caller, the failure is reported asynchronously
+  const syntheticException = new Error('Sentry syntheticException');
+  const triggerFail = (
+    error: WechatMiniprogram.GeneralCallbackResult,
+  ): void => {
+    triggerHandlers('navigation', {
+      ...handlerData,
+      error,
+      handled: typeof options?.fail === 'function',
+      syntheticException,
+    });
+  };
+
+  // wx APIs only return a promise when no callback is passed
+  if (!options || !(options.success || options.fail || options.complete)) {
+    const result = originalFunc.call(wx, options);
+    if (result && typeof result.then === 'function') {
+      return result.then(undefined, (error: any) => {
+        triggerFail(error);
+        throw error;
+      });
+    }
+    return result;
+  }
+
+  const { fail } = options;
+  return originalFunc.call(wx, {
+    ...options,
+    fail(error: WechatMiniprogram.GeneralCallbackResult) {
+      triggerFail(error);
+      fail?.(error);
+    },
   });
+}
+
+function instrumentNavigation(): void {
+  ['navigateTo', 'redirectTo', 'switchTab', 'reLaunch'].forEach(
+    (navigateFunc) => {
+      fill(
+        wx,
+        navigateFunc,
+        function (originalFunc: (options: any) => any): Function {
+          return function (options: any): any {
+            const handlerData = {
+              type: navigateFunc,
+              from: getCurrentPageRoute(),
+              to: options.url,
+            };
+            triggerHandlers('navigation', handlerData);
+
+            return callNavigation(originalFunc, options, handlerData);
+          };
+        },
+      );
+    },
+  );
 
   fill(
     wx,
@@ -201,30 +260,108 @@ function instrumentNavigation(): void {
     function (
       originalFunc: (options?: WechatMiniprogram.NavigateBackOption) => any,
     ): Function {
-      return function (options?: WechatMiniprogram.NavigateBackOption): void {
+      return function (options?: WechatMiniprogram.NavigateBackOption): any {
         const pages = getCurrentPages();
         const delta = Math.min(options?.delta || 1, pages.length - 1);
         const targetPage = pages[pages.length - delta - 1];
-
-        triggerHandlers('navigation', {
+        const handlerData = {
           type: 'navigateBack',
           from: getCurrentPageRoute(),
-          to: targetPage.route,
-        });
+          to: targetPage?.route,
+        };
+        triggerHandlers('navigation', handlerData);
 
-        originalFunc.call(wx, options);
+        return callNavigation(originalFunc, options, handlerData);
       };
     },
   );
 }
 
+/** Time repeats of the same interaction are ignored for, e.g. while scrolling */
+const UI_DEBOUNCE_DURATION = 1000;
+let lastUiKey: string | undefined;
+let lastUiTimestamp = 0;
+
+/** Says if the argument of a handler is an event of a WXML component */
+function isWechatEvent(wat: any): boolean {
+  return (
+    !!wat &&
+    typeof wat.type === 'string' &&
+    !!wat.currentTarget &&
+    typeof wat.currentTarget === 'object'
+  );
+}
+
+/** Wraps a handler to trigger the handlers when it receives an event */
+function wrapUiHandler(
+  original: (...args: any[]) => any,
+  handler: string,
+): (...args: any[]) => any {
+  return function (this: any, ...args: any[]): any {
+    const event = args[0];
+    if (isWechatEvent(event)) {
+      const route: string | undefined = this && (this.route || this.is);
+      const { id, dataset } = event.currentTarget;
+      const key = `${route}|${handler}|${event.type}|${id}`;
+      const now = Date.now();
+
+      // Scroll, input and the like fire repeatedly, keep the first one only
+      if (key !== lastUiKey || now - lastUiTimestamp > UI_DEBOUNCE_DURATION) {
+        triggerHandlers('ui', {
+          type: event.type,
+          handler,
+          route,
+          id,
+          dataset,
+        });
+      }
+      lastUiKey = key;
+      lastUiTimestamp = now;
+    }
+
+    return original.apply(this, args);
+  };
+}
+
+/** Wraps every function of the object */
+function wrapUiHandlers(functions?: { [key: string]: any }): void {
+  if (!functions) {
+    return;
+  }
+  Object.keys(functions).forEach((name) => {
+    if (typeof functions[name] === 'function') {
+      functions[name] = wrapUiHandler(functions[name], name);
+    }
+  });
+}
+
+function instrumentUi(): void {
+  if (typeof Page === 'function') {
+    Page = fillTopLevel(Page, (original) => {
+      return function (this: any, definition: any): void {
+        wrapUiHandlers(definition);
+        original.call(this, definition);
+      };
+    }) as WechatMiniprogram.Page.Constructor;
+  }
+
+  if (typeof Component === 'function') {
+    Component = fillTopLevel(Component, (original) => {
+      return function (this: any, definition: any): string {
+        wrapUiHandlers(definition && definition.methods);
+        return original.call(this, definition);
+      };
+    }) as WechatMiniprogram.Component.Constructor;
+  }
+}
+
 function instrumentError(): void {
-  wx.onError((stack) => {
-    const [name, message] = stack.split(`\n`);
+  wx.onError((input) => {
+    const { name, message, stack, ...data } = parseOnErrorMessage(input);
     const error = new Error(message);
     error.name = name;
     error.stack = stack;
-    triggerHandlers('error', { error });
+    triggerHandlers('error', { error, data });
   });
 }
 
@@ -235,3 +372,9 @@ function instrumentUnhandledRejection(): void {
     triggerHandlers('unhandledRejection', promise);
   });
 }
+
+function instrumentPageNotFound(): void {
+  wx.onPageNotFound((res) => {
+    triggerHandlers('pageNotFound', res);
+  });
+}
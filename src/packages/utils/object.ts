@@ -9,7 +9,7 @@ import {
 } from './is';
 import { Memo } from './memo';
 import { getFunctionName } from './stacktrace';
-import { truncate } from './string';
+import { truncate, utf8Length } from './string';
 
 /**
  * Wrap a given object method with a higher-order function
@@ -177,11 +177,6 @@ function getWalkSource(
   };
 }
 
-/** Calculates bytes size of input string */
-function utf8Length(value: string): number {
-  return ~-encodeURI(value).split(/%..|./).length;
-}
-
 /** Calculates bytes size of input object */
 function jsonSize(value: any): number {
   return utf8Length(JSON.stringify(value));
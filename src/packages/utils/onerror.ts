@@ -0,0 +1,130 @@
+import { formatWxApiError, isWxApiError, parseWxApiError } from './wxapierror';
+
+/** Where an error reported by `wx.onError` has been thrown */
+export type OnErrorOrigin = 'appservice' | 'webview';
+
+/** An error recovered from the string passed to `wx.onError` */
+export interface OnErrorDetails {
+  /** Type of the error, e.g. `TypeError` */
+  name: string;
+  message: string;
+  /** Stack of the error, starting with `name: message` when the engine reports it that way */
+  stack: string;
+  origin: OnErrorOrigin;
+  /** The line WeChat wrapped the error with, e.g. `thirdScriptError` */
+  wrapper?: string;
+  /** Where WeChat says the error has been thrown, e.g. `pages/index/index page onLoad function` */
+  location?: string;
+}
+
+/** Lines WeChat puts in front of errors, and where they come from */
+const WRAPPERS: { [wrapper: string]: OnErrorOrigin } = {
+  MiniProgramError: 'appservice',
+  thirdScriptError: 'appservice',
+  appServiceSDKScriptError: 'appservice',
+  webviewScriptError: 'webview',
+};
+
+// TypeError: Cannot read property 'a' of undefined
+const ERROR_HEADER = /^\s*([A-Za-z_$][\w$]*(?:Error|Exception)|Error): ?(.*)$/;
+// Cannot read property 'a' of undefined;at pages/index/index page onLoad function
+const LOCATION_SUFFIX = /^(.*?);\s*at (.*)$/;
+
+/**
+ * Parses the string passed to `wx.onError`.
+ *
+ * WeChat wraps errors with a line such as `MiniProgramError` or
+ * `thirdScriptError`, followed by the message and the stack. Depending on the
+ * engine, the stack may repeat the message prefixed with the error type:
+ *
+ *     thirdScriptError
+ *     Cannot read property 'a' of undefined;at pages/index/index page onLoad function
+ *     TypeError: Cannot read property 'a' of undefined
+ *         at Ie.onLoad (https://usr/app-service.js:1:2345)
+ *
+ * Failed wx API calls are reported as their JSON result, and the stack only
+ * repeats the wrapper:
+ *
+ *     MiniProgramError
+ *     {"errMsg":"hideLoading:fail toast can't be found"}
+ *     Error: MiniProgramError
+ *         at Object.hideLoading (https://lib/WAServiceMainContext.js:1:2345)
+ *
+ * @param input The string passed to `wx.onError`.
+ */
+export function parseOnErrorMessage(input: string): OnErrorDetails {
+  const lines = String(input).split('\n');
+
+  const first = lines[0].trim();
+  const wrapper = WRAPPERS.hasOwnProperty(first) ? first : undefined;
+  const origin = wrapper ? WRAPPERS[wrapper] : 'appservice';
+  const rest = wrapper ? lines.slice(1) : lines;
+
+  // The error type and message as reported by the engine, if any
+  for (let i = 0; i < rest.length; i++) {
+    const header = ERROR_HEADER.exec(rest[i]);
+    if (header) {
+      const details = parseMessage(i > 0 ? rest[0] : header[2]);
+      // `Error: MiniProgramError` says nothing, the message is the line before
+      const generic = !header[2] || WRAPPERS.hasOwnProperty(header[2].trim());
+      return {
+        name: (generic && details.name) || header[1],
+        message: (generic ? details.message : header[2]) || details.message,
+        stack: rest.slice(i).join('\n'),
+        origin,
+        wrapper,
+        location: details.location,
+      };
+    }
+  }
+
+  const { name = 'Error', message, location } = parseMessage(rest[0] || '');
+  return {
+    name,
+    message,
+    stack: rest.slice(1).join('\n'),
+    origin,
+    wrapper,
+    location,
+  };
+}
+
+/**
+ * Splits the location WeChat appends to messages from the message itself.
+ * Results of failed wx API calls are turned into a `WxApiError`.
+ */
+function parseMessage(
+  line: string,
+): {
+  name?: string;
+  message: string;
+  location?: string;
+} {
+  const apiError = parseWxApiErrorLine(line);
+  if (apiError) {
+    return { name: 'WxApiError', message: apiError };
+  }
+
+  const match = LOCATION_SUFFIX.exec(line);
+  if (match) {
+    return { message: match[1].trim(), location: match[2].trim() };
+  }
+  return { message: line.trim() };
+}
+
+/** Describes the failed wx API call of a line such as `{"errMsg":"hideLoading:fail"}` */
+function parseWxApiErrorLine(line: string): string | undefined {
+  const trimmed = line.trim();
+  if (trimmed.charAt(0) !== '{') {
+    return undefined;
+  }
+  try {
+    const result = JSON.parse(trimmed);
+    if (isWxApiError(result)) {
+      return formatWxApiError(parseWxApiError(result));
+    }
+  } catch (_oO) {
+    // no-empty
+  }
+  return undefined;
+}
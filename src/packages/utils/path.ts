@@ -181,3 +181,30 @@ export function basename(path: string, ext?: string): string {
   }
   return f;
 }
+
+// https://usr/, weapp:// or http://127.0.0.1:50325/ in the devtools
+const PROTOCOL_AND_HOST = /^[a-z][\w+.-]*:\/\/[^/]*/i;
+// Root of the app service in the devtools
+const APPSERVICE_ROOT = /^appservice\//;
+// plugin://wx2b03c6e691cd7370/index.js or plugin-private://wx2b03c6e691cd7370/index.js
+const PLUGIN = /^plugin(?:-private)?:\/\/([^/]+)/;
+
+/**
+ * Turns a filename reported by any platform or base library into a path
+ * relative to the root of the mini app, e.g. `pages/index/index.js` for
+ * `weapp:///pages/index/index.js` or `appservice/pages/index/index.js`.
+ */
+export function toAppPath(filename: string): string {
+  return normalizePath(filename.replace(PROTOCOL_AND_HOST, ''))
+    .replace(/^\/+/, '')
+    .replace(/\/+$/, '')
+    .replace(APPSERVICE_ROOT, '');
+}
+
+/**
+ * Returns the AppID of the plugin the file belongs to, if it belongs to one.
+ */
+export function getPluginId(filename: string): string | undefined {
+  const match = PLUGIN.exec(filename);
+  return match ? match[1] : undefined;
+}
@@ -57,3 +57,26 @@ export function isMatchingPattern(
   }
   return false;
 }
+
+/**
+ * Counts the bytes of a string encoded as UTF-8
+ * @param str The string to measure
+ */
+export function utf8Length(str: string): number {
+  let length = 0;
+  for (let i = 0; i < str.length; i++) {
+    const code = str.charCodeAt(i);
+    if (code < 0x80) {
+      length += 1;
+    } else if (code < 0x800) {
+      length += 2;
+    } else if (code >= 0xd800 && code <= 0xdbff && i + 1 < str.length) {
+      // Surrogate pair, both halves encode a single 4 byte character
+      length += 4;
+      i += 1;
+    } else {
+      length += 3;
+    }
+  }
+  return length;
+}
@@ -0,0 +1,78 @@
+import { isPlainObject, isString } from './is';
+
+/** Object passed to the `fail` callback of wx APIs, or rejected by their promise */
+export interface WxApiErrorLike {
+  errMsg: string;
+  errno?: number;
+  [key: string]: unknown;
+}
+
+/** A failed wx API call, as recovered from its `errMsg` */
+export interface WxApiErrorDetails {
+  /** Name of the API, e.g. `getLocation` */
+  api: string;
+  /** Why the call failed, e.g. `auth deny` */
+  reason: string;
+  errno?: number;
+  /** Meaning of the errno, known for a few common errnos only */
+  description?: string;
+}
+
+/**
+ * Descriptions of a few common errnos, not the full list of WeChat. Other
+ * errnos are reported without a description and can be looked up on the
+ * page below.
+ * @see https://developers.weixin.qq.com/miniprogram/dev/framework/usability/PublicErrno.html
+ */
+const COMMON_ERRNO_DESCRIPTIONS: { [errno: number]: string } = {
+  1: 'Unknown error',
+  5: 'API call timed out',
+  103: 'The API has not been authorized by the user',
+  104: 'The user has not agreed to the privacy agreement',
+  112: 'The API is not declared in the privacy agreement',
+  600002: 'The URL is not in the domain whitelist',
+};
+
+// getLocation:fail auth deny
+// getLocation:fail:auth denied
+const ERR_MSG = /^([\w.]+):fail(?:[:\s]+([\s\S]*))?$/;
+
+/**
+ * Says if the value is the failure of a wx API, such as
+ * `{ errMsg: 'getLocation:fail auth deny', errno: 103 }`.
+ */
+export function isWxApiError(wat: unknown): boolean {
+  return (
+    isPlainObject(wat) &&
+    isString((wat as WxApiErrorLike).errMsg) &&
+    ERR_MSG.test((wat as WxApiErrorLike).errMsg)
+  );
+}
+
+/**
+ * Parses the API name, the reason and the errno of a failed wx API call.
+ */
+export function parseWxApiError(error: WxApiErrorLike): WxApiErrorDetails {
+  const match = ERR_MSG.exec(error.errMsg);
+  const errno = typeof error.errno === 'number' ? error.errno : undefined;
+  return {
+    api: match ? match[1] : 'unknown',
+    reason: (match && match[2] && match[2].trim()) || 'unknown',
+    errno,
+    description:
+      errno === undefined ? undefined : COMMON_ERRNO_DESCRIPTIONS[errno],
+  };
+}
+
+/**
+ * Describes a failed wx API call, e.g.
+ * `getLocation:fail auth deny (errno 103: The API has not been authorized by the user)`.
+ */
+export function formatWxApiError(details: WxApiErrorDetails): string {
+  const { api, reason, errno, description } = details;
+  return `${api}:fail ${reason}${
+    errno === undefined
+      ? ''
+      : ` (errno ${errno}${description ? `: ${description}` : ''})`
+  }`;
+}
@@ -1,8 +1,12 @@
 import { Event, Exception, StackFrame } from './packages/types';
 import {
   extractExceptionKeysForMessage,
+  formatWxApiError,
   isEvent,
+  isMatchingPattern,
   normalizeToSize,
+  parseWxApiError,
+  WxApiErrorLike,
 } from './packages/utils';
 
 import {
@@ -11,7 +15,68 @@ import {
   StackTrace as TraceKitStackTrace,
 } from './tracekit';
 
-const STACKTRACE_LIMIT = 50;
+/** Files of the WeChat base library, the devtools and npm packages, which are never in-app */
+const FRAMEWORK_FILES = [
+  /\bWAService\.js/,
+  /\bWAServiceMainContext\.js/,
+  /\bWASubContext\.js/,
+  /\bWAWebview\.js/,
+  // The base library is served from https://lib/ on devices
+  /^https?:\/\/lib\//,
+  // Polyfills and debugging helpers injected by the devtools
+  /\/__dev__\//,
+  /\bappservice\/__/,
+  /(?:^|\/)miniprogram_npm\//,
+  /(?:^|\/)node_modules\//,
+  /\bwx-sentry\b/,
+  /^\[native code\]$/,
+];
+
+/**
+ * Says if a frame belongs to the mini app, as opposed to WeChat or a library.
+ * @hidden
+ */
+export function isInAppFrame(filename?: string): boolean {
+  if (!filename) {
+    return true;
+  }
+  return !FRAMEWORK_FILES.some((pattern) => pattern.test(filename));
+}
+
+/**
+ * Overrides the `in_app` flag of all frames of the event.
+ * Frames matching `include` are always in-app, frames matching `exclude` never are.
+ *
+ * @param event The event whose frames are classified
+ * @param include Patterns of filenames that are in-app
+ * @param exclude Patterns of filenames that are not in-app
+ * @hidden
+ */
+export function applyInAppPatterns(
+  event: Event,
+  include: Array<string | RegExp> = [],
+  exclude: Array<string | RegExp> = [],
+): void {
+  const stacktraces = [
+    ...((event.exception && event.exception.values) || []).map(
+      (exception) => exception.stacktrace,
+    ),
+    event.stacktrace,
+  ];
+
+  stacktraces.forEach((stacktrace) => {
+    ((stacktrace && stacktrace.frames) || []).forEach((frame) => {
+      const filename = frame.filename || '';
+      if (include.some((pattern) => isMatchingPattern(filename, pattern))) {
+        frame.in_app = true;
+      } else if (
+        exclude.some((pattern) => isMatchingPattern(filename, pattern))
+      ) {
+        frame.in_app = false;
+      }
+    });
+  });
+}
 
 /**
  * This function creates an exception from an TraceKitStackTrace
@@ -78,6 +143,47 @@ export function eventFromPlainObject(
   return event;
 }
 
+/**
+ * Creates an exception from a failed wx API call.
+ * @hidden
+ */
+export function exceptionFromWxApiError(error: WxApiErrorLike): Exception {
+  return {
+    type: 'WxApiError',
+    value: formatWxApiError(parseWxApiError(error)),
+  };
+}
+
+/**
+ * Creates an event from a failed wx API call, grouped by API and reason.
+ * @hidden
+ */
+export function eventFromWxApiError(
+  error: WxApiErrorLike,
+  syntheticException?: Error,
+): Event {
+  const { api, reason } = parseWxApiError(error);
+  const exception = exceptionFromWxApiError(error);
+
+  if (syntheticException) {
+    const stacktrace = computeStackTrace(syntheticException);
+    const frames = prepareFramesForEvent(stacktrace.stack);
+    if (frames.length) {
+      exception.stacktrace = { frames };
+    }
+  }
+
+  return {
+    exception: {
+      values: [exception],
+    },
+    extra: {
+      __serialized__: normalizeToSize(error),
+    },
+    fingerprint: ['wx-api-error', api, reason],
+  };
+}
+
 /**
  * @hidden
  */
@@ -120,16 +226,19 @@ export function prepareFramesForEvent(
   }
 
   // The frame where the crash happened, should be the last entry in the array
+  // Deep stacks are trimmed by the client, which keeps both ends
   return localStack
-    .slice(0, STACKTRACE_LIMIT)
     .map(
-      (frame: TraceKitStackFrame): StackFrame => ({
-        colno: frame.column === null ? undefined : frame.column,
-        filename: frame.url || localStack[0].url,
-        function: frame.func || '?',
-        in_app: true,
-        lineno: frame.line === null ? undefined : frame.line,
-      }),
+      (frame: TraceKitStackFrame): StackFrame => {
+        const filename = frame.url || localStack[0].url;
+        return {
+          colno: frame.column === null ? undefined : frame.column,
+          filename,
+          function: frame.func || '?',
+          in_app: isInAppFrame(filename),
+          lineno: frame.line === null ? undefined : frame.line,
+        };
+      },
     )
     .reverse();
 }
@@ -4,6 +4,7 @@ import {
   initAndBind,
   Integrations as CoreIntegrations,
 } from './packages/core';
+import { ClientReport } from './packages/types';
 
 import { MiniAppOptions } from './backend';
 import { MiniAppClient } from './client';
@@ -125,6 +126,20 @@ export function close(timeout?: number): PromiseLike<boolean> {
   return Promise.reject(false);
 }
 
+/**
+ * Returns the counts of all events discarded since the SDK was initialized,
+ * grouped by reason and category.
+ *
+ * @returns The client report, or undefined if the transport doesn't track discarded events.
+ */
+export function getClientReports(): ClientReport | undefined {
+  const client = getCurrentHub().getClient<MiniAppClient>();
+  if (client) {
+    return client.getClientReports();
+  }
+  return undefined;
+}
+
 /**
  * Wrap code within a try/catch block so the SDK is able to capture errors.
  *
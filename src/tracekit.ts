@@ -41,6 +41,18 @@ const UNKNOWN_FUNCTION = '?';
 
 const chrome = /^\s*at (?:(.*?) ?\()?((?:file|https?|blob|address|native|eval|webpack|<anonymous>|[-a-z]+:|.*bundle|\/).*?)(?::(\d+))?(?::(\d+))?\)?\s*$/i;
 const chromeEval = /\((\S*)(?::(\d+))(?::(\d+))\)/;
+// WeChat devtools reference bundled files without a protocol, sometimes with a `VM` prefix
+// at Function.r (appservice.app.js:1:2345)
+// at VM12 WAService.js:2:1234
+// at n (WAServiceMainContext.js?t=wechat&v=2.14.1:2:12345)
+const wechat = /^\s*at (?:(.*?) ?\()?((?:VM\d+ )?[^\s():?]+\.js(?:\?[^\s():]*)?)(?::(\d+))?(?::(\d+))?\)?\s*$/i;
+const wechatVm = /^VM\d+ /;
+// JavaScriptCore (iOS) and Gecko
+// onLoad@https://usr/app-service.js:1:2345
+// global code@weapp:///pages/index/index.js:12:9
+// forEach@[native code]
+const gecko = /^\s*(.*?)(?:\((.*?)\))?(?:^|@)?((?:file|https?|blob|chrome|webpack|resource|weapp|wxfile).*?:\/.*?|\[native code\]|[^@\s]*(?:bundle|\.js)|\/[\w\-. /=]+)(?::(\d+))?(?::(\d+))?\s*$/i;
+const geckoEval = /(\S+) line (\d+)(?: > eval line \d+)* > eval/i;
 
 /** JSDoc */
 export function computeStackTrace(ex: any): StackTrace {
@@ -103,6 +115,34 @@ function computeStackTraceFromStackProp(ex: any): StackTrace | null {
         line: parts[3] ? +parts[3] : null,
         column: parts[4] ? +parts[4] : null,
       };
+    } else if ((parts = wechat.exec(lines[i]))) {
+      element = {
+        url: parts[2].replace(wechatVm, ''),
+        func: parts[1] || UNKNOWN_FUNCTION,
+        args: [],
+        line: parts[3] ? +parts[3] : null,
+        column: parts[4] ? +parts[4] : null,
+      };
+    } else if ((parts = gecko.exec(lines[i]))) {
+      if (!parts[4] && parts[3] !== '[native code]') {
+        // Most likely the message of the error, which happens to end with a file name
+        continue;
+      }
+      isEval = parts[3] && parts[3].indexOf(' > eval') > -1;
+      if (isEval && (submatch = geckoEval.exec(parts[3]))) {
+        // throw out eval line/column and use top-most line number
+        parts[1] = parts[1] || `eval`;
+        parts[3] = submatch[1];
+        parts[4] = submatch[2];
+        parts[5] = ''; // no column when eval
+      }
+      element = {
+        url: parts[3],
+        func: parts[1] || UNKNOWN_FUNCTION,
+        args: parts[2] ? parts[2].split(',') : [],
+        line: parts[4] ? +parts[4] : null,
+        column: parts[5] ? +parts[5] : null,
+      };
     } else {
       continue;
     }
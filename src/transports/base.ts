@@ -1,19 +1,150 @@
-import { API } from '../packages/core';
 import {
+  API,
+  createEnvelopeHeaders,
+  envelopeToSentryRequest,
+  eventToEnvelopeItem,
+  eventToSentryRequest,
+  sessionToEnvelopeItem,
+  sessionToSentryRequest,
+} from '../packages/core';
+import {
+  ClientReport,
+  EnvelopeItem,
   Event,
+  Outcome,
   Response,
+  SentryRequest,
   SentryRequestType,
+  Session,
+  Severity,
   Status,
   Transport,
   TransportOptions,
 } from '../packages/types';
 import {
+  createEnvelope,
   logger,
   parseRetryAfterHeader,
   PromiseBuffer,
   SentryError,
 } from '../packages/utils';
 
+import { OfflineStore } from './offline';
+
+/** Default number of retries of a single request */
+const DEFAULT_MAX_RETRIES = 3;
+
+/** Default delay in ms before the first retry */
+const DEFAULT_RETRY_BASE_DELAY = 1000;
+
+/** Default upper bound in ms of the delay between two retries */
+const DEFAULT_RETRY_MAX_DELAY = 30 * 1000;
+
+/** Default time in ms an item waits for its batch to be sent */
+const DEFAULT_BATCH_DELAY = 5 * 1000;
+
+/** Default number of items that makes a batch to be sent right away */
+const DEFAULT_BATCH_MAX_ITEMS = 10;
+
+/** Default time in ms client reports are collected for before being sent */
+const DEFAULT_CLIENT_REPORT_INTERVAL = 60 * 1000;
+
+/** Default network types items are deferred on */
+const DEFAULT_DEFERRED_NETWORK_TYPES = ['none', '2g'];
+
+/** Default number of deferred requests kept in memory without the offline store */
+const DEFAULT_DEFERRED_LIMIT = 30;
+
+/** An item waiting for its batch to be sent */
+interface BatchedItem {
+  item: EnvelopeItem;
+  type: SentryRequestType;
+  urgent: boolean;
+  resolve: (value: Response | PromiseLike<Response>) => void;
+  reject: (reason?: unknown) => void;
+}
+
+/** A request waiting for a better network */
+interface DeferredRequest {
+  request: SentryRequest;
+  /** Slot of the request in the offline store, if it is stored */
+  key?: number;
+  categories: SentryRequestType[];
+  resolve: (value: Response | PromiseLike<Response>) => void;
+  reject: (reason?: unknown) => void;
+}
+
+/** Raw response to a request made by a transport */
+export interface TransportResponse {
+  statusCode: number;
+  /** Response headers, with lower-cased names */
+  headers: Record<string, string | null | undefined>;
+}
+
+/** Maps a request type to the data category used in rate limits and client reports */
+function toDataCategory(type: SentryRequestType): string {
+  switch (type) {
+    case 'event':
+      return 'error';
+    case 'transaction':
+    case 'session':
+      return type;
+    case 'client_report':
+      return 'internal';
+    default:
+      return 'default';
+  }
+}
+
+/** Says if the event has to be sent right away, even on a poor network */
+function isUrgent(event: Event): boolean {
+  return (
+    !event.type &&
+    (!event.level ||
+      [Severity.Fatal, Severity.Critical, Severity.Error].indexOf(
+        event.level,
+      ) !== -1)
+  );
+}
+
+/** Builds a client report from counts keyed by `reason:category` */
+function createClientReport(outcomes: Record<string, number>): ClientReport {
+  return {
+    timestamp: Date.now() / 1000,
+    discarded_events: Object.keys(outcomes).map((key) => {
+      const [reason, category] = key.split(':');
+      return {
+        reason: reason as Outcome,
+        category,
+        quantity: outcomes[key],
+      };
+    }),
+  };
+}
+
+/**
+ * Sets `sent_at` in the envelope header of the request to now. Stored and
+ * retried requests go out long after they were created, and Sentry would
+ * move their events to the time of sending when correcting the clock drift.
+ */
+function refreshSentAt(request: SentryRequest): SentryRequest {
+  const newline = request.body.indexOf('\n');
+  const header = newline === -1 ? request.body : request.body.slice(0, newline);
+  try {
+    const headers = JSON.parse(header);
+    if (headers && headers.sent_at) {
+      headers.sent_at = new Date().toISOString();
+      return {
+        ...request,
+        body: `${JSON.stringify(headers)}${request.body.slice(header.length)}`,
+      };
+    }
+  } catch (_oO) {
+    // no-empty
+  }
+  return request;
+}
+
 /** Base Transport class implementation */
 export abstract class BaseTransport implements Transport {
   /** Helper to get Sentry API endpoints. */
@@ -25,17 +156,165 @@ export abstract class BaseTransport implements Transport {
   /** Locks transport after receiving rate limits in a response */
   protected readonly _rateLimits: Record<string, Date> = {};
 
+  /** Requests which have not been delivered yet, persisted in wx storage */
+  protected readonly _offlineStore?: OfflineStore;
+
+  /** Slots of stored requests that are currently on their way */
+  private readonly _inFlight: number[] = [];
+
+  /** Whether stored requests are currently being replayed */
+  private _replaying: boolean = false;
+
+  /** Items waiting for the current batch to be sent */
+  private _batch: BatchedItem[] = [];
+
+  /** Timer sending the current batch */
+  private _batchTimer?: ReturnType<typeof setTimeout>;
+
+  /** Discarded events not reported to Sentry yet, keyed by `reason:category` */
+  private _outcomes: Record<string, number> = {};
+
+  /** All discarded events since the transport was created, keyed by `reason:category` */
+  private readonly _totalOutcomes: Record<string, number> = {};
+
+  /** Timer sending the next client report */
+  private _clientReportTimer?: ReturnType<typeof setTimeout>;
+
+  /** Last network type reported by wx */
+  private _networkType?: string;
+
+  /** Requests waiting for a better network, oldest first */
+  private _deferred: DeferredRequest[] = [];
+
   public constructor(public options: TransportOptions) {
-    this._api = new API(this.options.dsn);
+    this._api = new API(this.options.dsn, this.options.tunnel);
+
+    if (this.options.offlineStorage !== false) {
+      this._offlineStore = new OfflineStore(
+        this.options.offlineStorageLimit,
+        (request, key) => {
+          // Requests on their way are only lost if their delivery fails
+          if (this._inFlight.indexOf(key) === -1) {
+            this.recordLostEvent(Outcome.QueueOverflow, request.type);
+          }
+        },
+        this.options.offlineStorageMaxBytes,
+      );
+    }
+
+    wx.onNetworkStatusChange(({ isConnected, networkType }) => {
+      this._networkType = networkType;
+      if (isConnected && !this._isNetworkPoor()) {
+        // Deferred requests go first, so they are in flight and not replayed twice
+        this._flushDeferred();
+        this._replayStoredRequests();
+      }
+    });
+
+    if (this.options.networkPolicy) {
+      wx.getNetworkType({
+        success: ({ networkType }) => {
+          this._networkType = networkType;
+          this._replayStoredRequests();
+        },
+      });
+    } else {
+      this._replayStoredRequests();
+    }
+
+    wx.onAppHide(() => {
+      // The mini app may never come back, send what we have while we can
+      this._flushBatch();
+      this._sendClientReport();
+    });
   }
 
   /**
    * @inheritDoc
    */
-  public sendEvent(_: Event): PromiseLike<Response> {
+  public sendEvent(event: Event): PromiseLike<Response> {
+    if (this.options.batch) {
+      return this._addToBatch(
+        eventToEnvelopeItem(event),
+        event.type || 'event',
+        event,
+        isUrgent(event),
+      );
+    }
+    return this._sendRequest(
+      eventToSentryRequest(event, this._api),
+      event,
+      isUrgent(event),
+    );
+  }
+
+  /**
+   * @inheritDoc
+   */
+  public sendSession(session: Session): PromiseLike<Response> {
+    if (this.options.batch) {
+      return this._addToBatch(
+        sessionToEnvelopeItem(session),
+        'session',
+        session,
+        false,
+      );
+    }
+    return this._sendRequest(
+      sessionToSentryRequest(session, this._api),
+      session,
+      false,
+    );
+  }
+
+  /**
+   * @inheritDoc
+   */
+  public close(timeout?: number): PromiseLike<boolean> {
+    this._flushBatch();
+    this._sendClientReport();
+    return this._buffer.drain(timeout);
+  }
+
+  /**
+   * @inheritDoc
+   */
+  public recordLostEvent(reason: Outcome, category: SentryRequestType): void {
+    const key = `${reason}:${toDataCategory(category)}`;
+    if (__LOG__) {
+      logger.log(`Adding outcome: ${key}`);
+    }
+    this._totalOutcomes[key] = (this._totalOutcomes[key] || 0) + 1;
+
+    if (this.options.sendClientReports === false) {
+      return;
+    }
+    this._outcomes[key] = (this._outcomes[key] || 0) + 1;
+    if (!this._clientReportTimer) {
+      this._clientReportTimer = setTimeout(
+        () => this._sendClientReport(),
+        this.options.clientReportInterval || DEFAULT_CLIENT_REPORT_INTERVAL,
+      );
+    }
+  }
+
+  /**
+   * @inheritDoc
+   */
+  public getClientReports(): ClientReport {
+    return createClientReport(this._totalOutcomes);
+  }
+
+  /**
+   * Makes a single attempt to deliver the request.
+   * Resolves with the response of the server, rejects if the server could not be reached.
+   */
+  protected _makeRequest(
+    _sentryRequest: SentryRequest,
+  ): PromiseLike<TransportResponse> {
     if (__LOG__) {
       throw new SentryError(
-        'Transport Class has to implement `sendEvent` method',
+        'Transport Class has to implement `_makeRequest` method',
       );
     } else {
       throw new SentryError('');
@@ -43,34 +322,192 @@ export abstract class BaseTransport implements Transport {
   }
 
   /**
-   * @inheritDoc
+   * @param sentryRequest Prepared SentryRequest to be delivered
+   * @param originalPayload Original payload used to create SentryRequest
+   * @param urgent Whether the request has to be sent even on a poor network
    */
-  public close(timeout?: number): PromiseLike<boolean> {
-    return this._buffer.drain(timeout);
+  protected _sendRequest(
+    sentryRequest: SentryRequest,
+    originalPayload: Event | Session,
+    urgent: boolean = true,
+  ): PromiseLike<Response> {
+    if (this._isRateLimited(sentryRequest.type)) {
+      return this._rejectRateLimited(sentryRequest.type, originalPayload);
+    }
+    return this._dispatch(sentryRequest, undefined, urgent);
+  }
+
+  /**
+   * Persists the request and hands it over to the buffer for delivery.
+   * Requests which are not urgent wait for a better network instead.
+   *
+   * @param sentryRequest Prepared SentryRequest to be delivered
+   * @param categories Categories of the items inside the request
+   * @param urgent Whether the request has to be sent even on a poor network
+   */
+  protected _dispatch(
+    sentryRequest: SentryRequest,
+    categories: SentryRequestType[] = [sentryRequest.type],
+    urgent: boolean = true,
+  ): PromiseLike<Response> {
+    if (!urgent && this._isNetworkPoor()) {
+      return this._defer(sentryRequest, categories);
+    }
+
+    // Persist the request before it goes out, so it is not lost if the
+    // request fails or the mini app gets killed in the meantime.
+    const key = this._offlineStore && this._offlineStore.add(sentryRequest);
+
+    return this._enqueue(sentryRequest, key, categories);
   }
 
   /**
-   * Handle Sentry response for promise-based transports.
-   */
-  protected _handleResponse({
-    requestType,
-    result,
-    headers,
-    resolve,
-    reject,
-  }: {
-    requestType: SentryRequestType;
-    result: WechatMiniprogram.RequestSuccessCallbackResult;
-    headers: Record<string, string | null>;
-    resolve: (value: Response | PromiseLike<Response>) => void;
-    reject: (reason?: unknown) => void;
-  }): void {
-    const status = Status.fromHttpCode(result.statusCode);
-    /**
-     * "The name is case-insensitive."
-     * https://developer.mozilla.org/en-US/docs/Web/API/Headers/get
-     */
-    const limited = this._handleRateLimit(headers);
+   * Adds an item to the current batch.
+   *
+   * @returns A promise that settles once the batch has been sent.
+   */
+  protected _addToBatch(
+    item: EnvelopeItem,
+    type: SentryRequestType,
+    originalPayload: Event | Session,
+    urgent: boolean = true,
+  ): PromiseLike<Response> {
+    if (this._isRateLimited(type)) {
+      return this._rejectRateLimited(type, originalPayload);
+    }
+
+    const { delay = DEFAULT_BATCH_DELAY, maxItems = DEFAULT_BATCH_MAX_ITEMS } =
+      this.options.batch || {};
+
+    return new Promise<Response>((resolve, reject) => {
+      this._batch.push({ item, type, urgent, resolve, reject });
+
+      if (this._batch.length >= maxItems) {
+        this._flushBatch();
+      } else if (!this._batchTimer) {
+        this._batchTimer = setTimeout(() => this._flushBatch(), delay);
+      }
+    });
+  }
+
+  /**
+   * Sends all items of the current batch. An envelope may hold a single event
+   * or transaction only, Sentry drops envelopes holding more of them. Every
+   * event and transaction gets an envelope of its own, sessions travel along
+   * with the first one.
+   */
+  protected _flushBatch(): void {
+    if (this._batchTimer) {
+      clearTimeout(this._batchTimer);
+      this._batchTimer = undefined;
+    }
+
+    const batch = this._batch;
+    if (!batch.length) {
+      return;
+    }
+    this._batch = [];
+
+    const envelopes: BatchedItem[][] = [];
+    const others: BatchedItem[] = [];
+    batch.forEach((entry) => {
+      if (entry.type === 'event' || entry.type === 'transaction') {
+        envelopes.push([entry]);
+      } else {
+        others.push(entry);
+      }
+    });
+    if (others.length) {
+      if (envelopes.length) {
+        envelopes[0].push(...others);
+      } else {
+        envelopes.push(others);
+      }
+    }
+
+    envelopes.forEach((items) => this._sendBatch(items));
+  }
+
+  /**
+   * Delivers the request, retrying network failures and server errors.
+   *
+   * @param sentryRequest Prepared SentryRequest to be delivered
+   * @param key Slot of the request in the offline store, if it is stored
+   * @param categories Categories of the items inside the request
+   */
+  protected _deliver(
+    sentryRequest: SentryRequest,
+    key?: number,
+    categories: SentryRequestType[] = [sentryRequest.type],
+  ): PromiseLike<Response> {
+    if (key !== undefined) {
+      this._inFlight.push(key);
+    }
+
+    return new Promise<Response>((resolve, reject) => {
+      const attempt = (retries: number): void => {
+        const retry = (): boolean => {
+          const delay = this._getRetryDelay(sentryRequest.type, retries);
+          if (delay === undefined) {
+            return false;
+          }
+          if (__LOG__) {
+            logger.log(`Retrying ${sentryRequest.type} in ${delay}ms`);
+          }
+          setTimeout(() => attempt(retries + 1), delay);
+          return true;
+        };
+
+        this._makeRequest(refreshSentAt(sentryRequest)).then(
+          (response) => {
+            const status = this._handleResponse(sentryRequest.type, response);
+            if (status === Status.Success) {
+              this._settle(key, true);
+              resolve({ status });
+              return;
+            }
+
+            const transient =
+              status === Status.Failed || status === Status.RateLimit;
+            if (transient && retry()) {
+              return;
+            }
+
+            // Requests Sentry refused for good are not worth keeping
+            this._settle(key, !transient);
+            if (transient && !this._isStored(key)) {
+              this._recordLostEvents(Outcome.NetworkError, categories);
+            }
+            reject(`Request failed with status code ${response.statusCode}`);
+          },
+          (reason) => {
+            if (retry()) {
+              return;
+            }
+            this._settle(key, false);
+            if (!this._isStored(key)) {
+              this._recordLostEvents(Outcome.NetworkError, categories);
+            }
+            reject(reason);
+          },
+        );
+      };
+
+      attempt(0);
+    });
+  }
+
+  /**
+   * Handles the response of the server and updates rate limits.
+   *
+   * @returns The status of the response.
+   */
+  protected _handleResponse(
+    requestType: SentryRequestType,
+    response: TransportResponse,
+  ): Status {
+    const status = Status.fromHttpCode(response.statusCode);
+    const limited = this._handleRateLimit(response.headers);
     if (__LOG__) {
       if (limited)
         logger.warn(
@@ -79,33 +516,81 @@ export abstract class BaseTransport implements Transport {
           )}`,
         );
     }
+    return status;
+  }
 
-    if (status === Status.Success) {
-      resolve({ status });
-      return;
+  /**
+   * Computes the delay before the next retry, using exponential backoff with
+   * jitter. Rate limits sent by the server are waited out, as long as they
+   * don't exceed the maximum delay.
+   *
+   * @returns The delay in ms, or undefined if the request should not be retried.
+   */
+  protected _getRetryDelay(
+    requestType: SentryRequestType,
+    retries: number,
+  ): number | undefined {
+    const {
+      maxRetries = DEFAULT_MAX_RETRIES,
+      baseDelay = DEFAULT_RETRY_BASE_DELAY,
+      maxDelay = DEFAULT_RETRY_MAX_DELAY,
+    } = this.options.retry || {};
+
+    if (retries >= maxRetries) {
+      return undefined;
     }
 
-    reject(result.errMsg);
+    const disabledUntil = this._disabledUntil(requestType);
+    const limitedFor = disabledUntil ? disabledUntil.getTime() - Date.now() : 0;
+    if (limitedFor > maxDelay) {
+      return undefined;
+    }
+
+    const backoff = Math.min(maxDelay, baseDelay * Math.pow(2, retries));
+    // Spread retries over the second half of the backoff window, so clients
+    // failing at the same time don't come back all at once
+    const jittered = backoff / 2 + Math.random() * (backoff / 2);
+    return Math.round(Math.max(jittered, limitedFor));
+  }
+
+  /**
+   * Rejects a payload because its category is rate limited.
+   */
+  protected _rejectRateLimited(
+    type: SentryRequestType,
+    originalPayload: Event | Session,
+  ): PromiseLike<Response> {
+    this.recordLostEvent(Outcome.RateLimitBackoff, type);
+    return Promise.reject({
+      event: originalPayload,
+      type,
+      reason: `Transport locked till ${this._disabledUntil(
+        type,
+      )} due to too many requests.`,
+      status: 429,
+    });
   }
 
   /**
    * Gets the time that given category is disabled until for rate limiting
    */
-  protected _disabledUntil(category: string): Date {
-    return this._rateLimits[category] || this._rateLimits.all;
+  protected _disabledUntil(category: SentryRequestType): Date {
+    return this._rateLimits[toDataCategory(category)] || this._rateLimits.all;
   }
 
   /**
    * Checks if a category is rate limited
    */
-  protected _isRateLimited(category: string): boolean {
+  protected _isRateLimited(category: SentryRequestType): boolean {
     return this._disabledUntil(category) > new Date(Date.now());
   }
 
   /**
    * Sets internal _rateLimits from incoming headers. Returns true if headers contains a non-empty rate limiting header.
    */
-  protected _handleRateLimit(headers: Record<string, string | null>): boolean {
+  protected _handleRateLimit(
+    headers: Record<string, string | null | undefined>,
+  ): boolean {
     const now = Date.now();
     const rlHeader = headers['x-sentry-rate-limits'];
     const raHeader = headers['retry-after'];
@@ -128,4 +613,247 @@ export abstract class BaseTransport implements Transport {
     }
     return false;
   }
+
+  /**
+   * Sends the counts of discarded events collected since the last report.
+   */
+  protected _sendClientReport(): void {
+    if (this._clientReportTimer) {
+      clearTimeout(this._clientReportTimer);
+      this._clientReportTimer = undefined;
+    }
+
+    const outcomes = this._outcomes;
+    if (!Object.keys(outcomes).length) {
+      return;
+    }
+    this._outcomes = {};
+
+    if (this._isRateLimited('client_report')) {
+      return;
+    }
+
+    const envelope = createEnvelope(createEnvelopeHeaders(this._api), [
+      {
+        headers: { type: 'client_report' },
+        payload: createClientReport(outcomes),
+      },
+    ]);
+    // Client reports are neither stored nor reported as lost themselves
+    this._enqueue(
+      envelopeToSentryRequest(envelope, 'client_report', this._api),
+      undefined,
+      [],
+    ).then(null, (reason) => {
+      if (__LOG__) {
+        logger.error(`Error while sending client report: ${reason}`);
+      }
+    });
+  }
+
+  /**
+   * Says if the network is too poor for requests which are not urgent.
+   */
+  protected _isNetworkPoor(): boolean {
+    const policy = this.options.networkPolicy;
+    if (!policy || this._networkType === undefined) {
+      return false;
+    }
+    const { deferOn = DEFAULT_DEFERRED_NETWORK_TYPES } = policy;
+    return deferOn.indexOf(this._networkType) !== -1;
+  }
+
+  /**
+   * Keeps the request until a better network is available. The request is
+   * also persisted, so it is replayed on the next launch if it never gets the
+   * chance to be sent.
+   *
+   * @returns A promise that settles once the request has been sent.
+   */
+  protected _defer(
+    sentryRequest: SentryRequest,
+    categories: SentryRequestType[],
+  ): PromiseLike<Response> {
+    if (__LOG__) {
+      logger.log(
+        `Deferring ${sentryRequest.type} on ${this._networkType} network`,
+      );
+    }
+
+    const key = this._offlineStore && this._offlineStore.add(sentryRequest);
+    if (key === undefined && this._deferred.length >= DEFAULT_DEFERRED_LIMIT) {
+      const dropped = this._deferred.shift() as DeferredRequest;
+      this._recordLostEvents(Outcome.QueueOverflow, dropped.categories);
+      dropped.reject(new SentryError('Too many deferred requests'));
+    }
+
+    return new Promise<Response>((resolve, reject) => {
+      this._deferred.push({
+        request: sentryRequest,
+        key,
+        categories,
+        resolve,
+        reject,
+      });
+    });
+  }
+
+  /**
+   * Sends all deferred requests.
+   */
+  protected _flushDeferred(): void {
+    const deferred = this._deferred;
+    this._deferred = [];
+
+    deferred.forEach(({ request, key, categories, resolve, reject }) => {
+      if (key !== undefined && !(this._offlineStore as OfflineStore).has(key)) {
+        // Dropped by the offline store to make room for newer requests
+        reject(new SentryError('Deferred request has been dropped'));
+        return;
+      }
+      this._enqueue(request, key, categories).then(resolve, reject);
+    });
+  }
+
+  /**
+   * Sends the items as one envelope.
+   */
+  private _sendBatch(batch: BatchedItem[]): void {
+    const types = batch
+      .map(({ type }) => type)
+      .filter((type, index, self) => self.indexOf(type) === index);
+    const envelope = createEnvelope(
+      createEnvelopeHeaders(this._api),
+      batch.map(({ item }) => item),
+    );
+    const sentryRequest = envelopeToSentryRequest(
+      envelope,
+      types.length === 1 ? types[0] : 'envelope',
+      this._api,
+    );
+
+    this._dispatch(
+      sentryRequest,
+      batch.map(({ type }) => type),
+      batch.some(({ urgent }) => urgent),
+    ).then(
+      (response) => batch.forEach(({ resolve }) => resolve(response)),
+      (reason) => batch.forEach(({ reject }) => reject(reason)),
+    );
+  }
+
+  /**
+   * Hands the request over to the buffer for delivery. Requests the buffer
+   * has no room for are not sent at all: stored ones wait in the offline
+   * store to be replayed, the others are lost.
+   *
+   * @param sentryRequest Prepared SentryRequest to be delivered
+   * @param key Slot of the request in the offline store, if it is stored
+   * @param categories Categories of the items inside the request
+   */
+  private _enqueue(
+    sentryRequest: SentryRequest,
+    key?: number,
+    categories: SentryRequestType[] = [sentryRequest.type],
+  ): PromiseLike<Response> {
+    if (!this._buffer.isReady()) {
+      if (key === undefined) {
+        this._recordLostEvents(Outcome.QueueOverflow, categories);
+      }
+      return Promise.reject(
+        new SentryError('Not adding Promise due to buffer limit reached.'),
+      );
+    }
+    return this._buffer.add(this._deliver(sentryRequest, key, categories));
+  }
+
+  /**
+   * Says if the request is still kept in the offline store, so it is replayed
+   * if its delivery fails.
+   */
+  private _isStored(key: number | undefined): boolean {
+    return (
+      key !== undefined &&
+      this._offlineStore !== undefined &&
+      this._offlineStore.has(key)
+    );
+  }
+
+  /**
+   * Records a discarded event for each of the given categories.
+   */
+  private _recordLostEvents(
+    reason: Outcome,
+    categories: SentryRequestType[],
+  ): void {
+    categories.forEach((category) => this.recordLostEvent(reason, category));
+  }
+
+  /**
+   * Marks a stored request as no longer in flight.
+   *
+   * @param key Slot of the request in the offline store, if it is stored
+   * @param done Whether the request can be forgotten
+   */
+  private _settle(key: number | undefined, done: boolean): void {
+    if (key === undefined) {
+      return;
+    }
+    this._inFlight.splice(this._inFlight.indexOf(key), 1);
+    if (done && this._offlineStore) {
+      this._offlineStore.remove(key);
+    }
+  }
+
+  /**
+   * Sends stored requests one after another, oldest first.
+   * Stops at the first request that fails to reach Sentry, and waits for a
+   * better network if the network is poor.
+   */
+  private _replayStoredRequests(): void {
+    const store = this._offlineStore;
+    if (!store || this._replaying || this._isNetworkPoor()) {
+      return;
+    }
+
+    const deferred = this._deferred.map(({ key }) => key);
+    const stored = store
+      .getAll()
+      .filter(
+        ({ key }) =>
+          this._inFlight.indexOf(key) === -1 && deferred.indexOf(key) === -1,
+      );
+    if (!stored.length) {
+      return;
+    }
+
+    if (__LOG__) {
+      logger.log(`Replaying ${stored.length} stored request(s)`);
+    }
+
+    this._replaying = true;
+    const next = (index: number): void => {
+      const entry = stored[index];
+      if (!entry) {
+        this._replaying = false;
+        return;
+      }
+      if (this._isRateLimited(entry.request.type)) {
+        next(index + 1);
+        return;
+      }
+      this._enqueue(entry.request, entry.key).then(
+        () => next(index + 1),
+        () => {
+          if (store.has(entry.key)) {
+            // Still unreachable, try again on the next network change
+            this._replaying = false;
+          } else {
+            next(index + 1);
+          }
+        },
+      );
+    };
+    next(0);
+  }
 }
@@ -0,0 +1,51 @@
+import { SentryRequest } from '../packages/types';
+
+import { BaseTransport, TransportResponse } from './base';
+
+/** Default name of the cloud function forwarding envelopes */
+const DEFAULT_FUNCTION_NAME = 'sentry';
+
+/**
+ * `wx.cloud.callFunction` based transport, for mini programs without a server
+ * of their own.
+ *
+ * Every request is handed to a cloud function, which forwards it to Sentry and
+ * answers with the status code and headers of the response. A reference
+ * implementation of that function ships in `cloudfunctions/sentry`.
+ *
+ * `wx.cloud.init` has to be called before the SDK is initialized.
+ */
+export class CloudFunctionTransport extends BaseTransport {
+  /**
+   * @inheritDoc
+   */
+  protected _makeRequest(
+    sentryRequest: SentryRequest,
+  ): PromiseLike<TransportResponse> {
+    const { name = DEFAULT_FUNCTION_NAME, env } =
+      this.options.cloudFunction || {};
+
+    return new Promise<TransportResponse>((resolve, reject) => {
+      wx.cloud.callFunction({
+        name,
+        data: {
+          url: sentryRequest.url,
+          body: sentryRequest.body,
+        },
+        ...(env && { config: { env } }),
+        success: ({ result }) => {
+          const response = result as TransportResponse | undefined;
+          if (!response || typeof response.statusCode !== 'number') {
+            reject(`Cloud function ${name} returned an invalid response`);
+            return;
+          }
+          resolve({
+            statusCode: response.statusCode,
+            headers: response.headers || {},
+          });
+        },
+        fail: reject,
+      });
+    });
+  }
+}
@@ -1,2 +1,3 @@
-export { BaseTransport } from './base';
+export { BaseTransport, TransportResponse } from './base';
+export { CloudFunctionTransport } from './cloudfunction';
 export { RequestTransport } from './request';
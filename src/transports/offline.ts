@@ -0,0 +1,212 @@
+import { SentryRequest } from '../packages/types';
+import { logger, utf8Length } from '../packages/utils';
+
+/** Prefix of every storage key used by the offline store */
+const STORAGE_PREFIX = '__sentry_offline__';
+
+/** Storage key holding the ordered list of occupied slots */
+const INDEX_KEY = `${STORAGE_PREFIX}index`;
+
+/** Default number of requests kept in storage */
+const DEFAULT_LIMIT = 30;
+
+/**
+ * Default number of bytes kept in storage. wx storage is limited to 10MB per
+ * mini program, which is shared with the app itself.
+ */
+const DEFAULT_MAX_BYTES = 2 * 1024 * 1024;
+
+/** A request persisted in wx storage together with the slot it occupies */
+export interface StoredRequest {
+  key: number;
+  request: SentryRequest;
+}
+
+/** An occupied slot, as persisted in the index */
+interface Slot {
+  key: number;
+  /** Size of the request body in bytes */
+  size: number;
+}
+
+/** The index, as persisted in wx storage */
+interface Index {
+  slots: Slot[];
+  /** Slot the next request is stored in */
+  next: number;
+}
+
+/**
+ * Persists requests in wx storage, so they survive network failures and restarts.
+ *
+ * Every request gets a slot of its own, numbered by a counter persisted with
+ * the index. Slot numbers are never reused, so a request which is dropped
+ * while it is on its way can't be mistaken for a newer one. Once `limit`
+ * requests or `maxBytes` bytes are stored, the oldest requests are dropped to
+ * make room for the new one.
+ */
+export class OfflineStore {
+  /** Occupied slots, oldest first */
+  private readonly _slots: Slot[];
+
+  /** Slot the next request is stored in */
+  private _next: number;
+
+  /**
+   * @param _limit Maximum number of stored requests
+   * @param _onDrop Called with every request dropped to make room for a new one
+   * @param _maxBytes Maximum size of all stored request bodies
+   */
+  public constructor(
+    private readonly _limit: number = DEFAULT_LIMIT,
+    private readonly _onDrop?: (request: SentryRequest, key: number) => void,
+    private readonly _maxBytes: number = DEFAULT_MAX_BYTES,
+  ) {
+    const { slots, next } = OfflineStore._readIndex();
+    this._slots = slots;
+    this._next = next;
+  }
+
+  /**
+   * Persists a request.
+   *
+   * @returns The slot the request has been stored in, or undefined if the
+   * request is too large to be stored at all.
+   */
+  public add(request: SentryRequest): number | undefined {
+    const size = utf8Length(request.body);
+    if (size > this._maxBytes) {
+      if (__LOG__) {
+        logger.warn(`Request of ${size} bytes is too large to be stored`);
+      }
+      return undefined;
+    }
+
+    while (
+      this._slots.length &&
+      (this._slots.length >= this._limit ||
+        this._getBytes() + size > this._maxBytes)
+    ) {
+      const dropped = this._slots.shift() as Slot;
+      const droppedRequest = OfflineStore._read(dropped.key);
+      wx.removeStorage({ key: OfflineStore._slotKey(dropped.key) });
+      if (__LOG__) {
+        logger.warn(`Offline store is full, dropping stored ${dropped.key}`);
+      }
+      if (droppedRequest && this._onDrop) {
+        this._onDrop(droppedRequest, dropped.key);
+      }
+    }
+
+    const key = this._next;
+    this._next += 1;
+    this._slots.push({ key, size });
+
+    wx.setStorage({ key: OfflineStore._slotKey(key), data: request });
+    this._writeIndex();
+    return key;
+  }
+
+  /**
+   * Removes a request from storage, usually because it has been delivered.
+   */
+  public remove(key: number): void {
+    const index = this._indexOf(key);
+    if (index === -1) {
+      return;
+    }
+    this._slots.splice(index, 1);
+
+    wx.removeStorage({ key: OfflineStore._slotKey(key) });
+    this._writeIndex();
+  }
+
+  /**
+   * Says if a request is still waiting in the given slot.
+   */
+  public has(key: number): boolean {
+    return this._indexOf(key) !== -1;
+  }
+
+  /**
+   * Reads all stored requests, oldest first.
+   */
+  public getAll(): StoredRequest[] {
+    const stored: StoredRequest[] = [];
+    this._slots.slice().forEach(({ key }) => {
+      const request = OfflineStore._read(key);
+      if (request) {
+        stored.push({ key, request });
+      } else {
+        // The slot got lost (e.g. storage was cleared), forget about it
+        this.remove(key);
+      }
+    });
+    return stored;
+  }
+
+  /** Position of the slot in the index */
+  private _indexOf(key: number): number {
+    for (let i = 0; i < this._slots.length; i++) {
+      if (this._slots[i].key === key) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /** Size of all stored request bodies */
+  private _getBytes(): number {
+    return this._slots.reduce((bytes, { size }) => bytes + size, 0);
+  }
+
+  /** Persists the list of occupied slots */
+  private _writeIndex(): void {
+    const index: Index = { slots: this._slots, next: this._next };
+    wx.setStorage({ key: INDEX_KEY, data: index });
+  }
+
+  /** Reads the list of occupied slots left behind by a previous run */
+  private static _readIndex(): Index {
+    let slots: Slot[] = [];
+    let next = 0;
+    try {
+      const index = wx.getStorageSync(INDEX_KEY);
+      if (index && Array.isArray(index.slots)) {
+        slots = index.slots.filter(
+          (slot: Slot) =>
+            slot &&
+            typeof slot.key === 'number' &&
+            typeof slot.size === 'number',
+        );
+        next = typeof index.next === 'number' ? index.next : 0;
+      }
+    } catch (_oO) {
+      // no-empty
+    }
+
+    // Never hand out a slot which is still occupied
+    slots.forEach(({ key }) => {
+      next = Math.max(next, key + 1);
+    });
+    return { slots, next };
+  }
+
+  /** Reads the request stored in the given slot */
+  private static _read(key: number): SentryRequest | undefined {
+    try {
+      const request = wx.getStorageSync(OfflineStore._slotKey(key));
+      if (request && request.url && request.body) {
+        return request;
+      }
+    } catch (_oO) {
+      // no-empty
+    }
+    return undefined;
+  }
+
+  /** Storage key of the given slot */
+  private static _slotKey(key: number): string {
+    return `${STORAGE_PREFIX}${key}`;
+  }
+}
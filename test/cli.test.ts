@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+
+import { main } from '../cli/index';
+
+/** A request received by the stand-in server */
+interface ReceivedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/** Reads the value of a field of a `multipart/form-data` body */
+function field(body: string, name: string): string | undefined {
+  const match = new RegExp(
+    `Content-Disposition: form-data; name="${name}"\\r\\n\\r\\n([^\\r]*)\\r\\n`,
+  ).exec(body);
+  return match ? match[1] : undefined;
+}
+
+let dir: string;
+let server: http.Server;
+let url: string;
+const received: ReceivedRequest[] = [];
+
+beforeAll(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wx-sentry-cli-'));
+  fs.mkdirSync(path.join(dir, 'pages', 'index'), { recursive: true });
+  fs.writeFileSync(
+    path.join(dir, 'app.js'),
+    'App({});\n//# sourceMappingURL=maps/app.js.map\n',
+  );
+  fs.mkdirSync(path.join(dir, 'maps'));
+  fs.writeFileSync(path.join(dir, 'maps', 'app.js.map'), '{"version":3}');
+  fs.writeFileSync(path.join(dir, 'pages', 'index', 'index.js'), 'Page({});');
+  fs.writeFileSync(
+    path.join(dir, 'pages', 'index', 'index.js.map'),
+    '{"version":3}',
+  );
+  // Files without a source map are not uploaded
+  fs.writeFileSync(path.join(dir, 'sitemap.js'), '');
+
+  server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      received.push({
+        url: req.url || '',
+        headers: req.headers,
+        body: Buffer.concat(chunks).toString('utf8'),
+      });
+      res.statusCode = 201;
+      res.end('{}');
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  fs.rmSync(dir, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+describe('upload-sourcemaps', () => {
+  it('creates the release and uploads every file with its source map', async () => {
+    await main([
+      'upload-sourcemaps',
+      dir,
+      '--release',
+      '1.0.0',
+      '--org',
+      'my-org',
+      '--project',
+      'my-miniapp',
+      '--auth-token',
+      'token',
+      `--url=${url}/`,
+    ]);
+
+    const [release, ...uploads] = received;
+    expect(release.url).toBe('/api/0/organizations/my-org/releases/');
+    expect(release.headers.authorization).toBe('Bearer token');
+    expect(JSON.parse(release.body)).toEqual({
+      version: '1.0.0',
+      projects: ['my-miniapp'],
+    });
+
+    uploads.forEach((upload) => {
+      expect(upload.url).toBe(
+        '/api/0/projects/my-org/my-miniapp/releases/1.0.0/files/',
+      );
+      expect(upload.headers.authorization).toBe('Bearer token');
+    });
+    expect(
+      uploads
+        .map(({ body }) => [field(body, 'name'), field(body, 'header')])
+        .sort(),
+    ).toEqual([
+      ['app:///app.js', 'Sourcemap:app:///maps/app.js.map'],
+      ['app:///maps/app.js.map', undefined],
+      [
+        'app:///pages/index/index.js',
+        'Sourcemap:app:///pages/index/index.js.map',
+      ],
+      ['app:///pages/index/index.js.map', undefined],
+    ]);
+  });
+
+  it('requires the URL for sentry.io DSNs', async () => {
+    await expect(
+      main([
+        'upload-sourcemaps',
+        dir,
+        '--release',
+        '1.0.0',
+        '--org',
+        'my-org',
+        '--project',
+        'my-miniapp',
+        '--auth-token',
+        'token',
+        '--dsn',
+        'https://key@o1.ingest.sentry.io/2',
+      ]),
+    ).rejects.toThrow('pass --url');
+  });
+});
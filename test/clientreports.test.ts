@@ -0,0 +1,134 @@
+import { Scope } from '../src/packages/core';
+import { parseEnvelope } from '../src/packages/utils';
+
+import { MiniAppOptions } from '../src/backend';
+import { MiniAppClient } from '../src/client';
+
+import { installWx, WxStub } from './fixtures/wx';
+
+const DSN = 'https://key@sentry.example.com/1';
+
+/** Lets pending promise callbacks run */
+function tick(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/** Creates a client whose transport neither retries nor stores requests */
+function createClient(options?: Partial<MiniAppOptions>): MiniAppClient {
+  return new MiniAppClient({
+    dsn: DSN,
+    transportOptions: {
+      dsn: DSN,
+      offlineStorage: false,
+      retry: { maxRetries: 0 },
+    },
+    ...options,
+  });
+}
+
+/** Discarded events counted by the client, as `reason:category:quantity` */
+function discarded(client: MiniAppClient): string[] {
+  const report = client.getClientReports();
+  return ((report && report.discarded_events) || []).map(
+    ({ reason, category, quantity }) => `${reason}:${category}:${quantity}`,
+  );
+}
+
+let stub: WxStub;
+
+beforeEach(() => {
+  stub = installWx();
+  // Client reports are sent from timers, which must not outlive the tests
+  jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('client reports', () => {
+  it('counts events not picked by sampleRate', async () => {
+    const client = createClient({ sampleRate: 0 });
+    client.captureMessage('sampled');
+    await tick();
+
+    expect(discarded(client)).toEqual(['sample_rate:error:1']);
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  it('counts events dropped by beforeSend', async () => {
+    const client = createClient({ beforeSend: () => null });
+    client.captureMessage('dropped');
+    await tick();
+
+    expect(discarded(client)).toEqual(['before_send:error:1']);
+  });
+
+  it('counts events dropped by an event processor', async () => {
+    const client = createClient();
+    const scope = new Scope();
+    scope.addEventProcessor(() => null);
+    client.captureMessage('dropped', undefined, undefined, scope);
+    await tick();
+
+    expect(discarded(client)).toEqual(['event_processor:error:1']);
+  });
+
+  it('counts events which could not be delivered', async () => {
+    const client = createClient();
+    client.captureMessage('lost');
+    await tick();
+
+    stub.requests[0].fail();
+    await tick();
+    expect(discarded(client)).toEqual(['network_error:error:1']);
+  });
+
+  it('counts events of rate limited categories', async () => {
+    const client = createClient();
+    client.captureMessage('sent');
+    await tick();
+    stub.requests[0].respond(200, { 'X-Sentry-Rate-Limits': '60:error' });
+    await tick();
+
+    client.captureMessage('limited');
+    await tick();
+    expect(discarded(client)).toEqual(['ratelimit_backoff:error:1']);
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  it('counts events the buffer has no room for', async () => {
+    const client = createClient();
+    for (let i = 0; i <= 30; i++) {
+      client.captureMessage(`message ${i}`);
+    }
+    await tick();
+
+    expect(stub.requests).toHaveLength(30);
+    expect(discarded(client)).toEqual(['queue_overflow:error:1']);
+  });
+
+  it('sends the counts as a client_report item', async () => {
+    const client = createClient({ beforeSend: () => null });
+    client.captureMessage('dropped');
+    client.captureMessage('dropped');
+    await tick();
+
+    stub.hide();
+    expect(stub.requests).toHaveLength(1);
+    const envelope = parseEnvelope(stub.requests[0].data);
+    expect(envelope.items).toHaveLength(1);
+    expect(envelope.items[0].headers).toEqual({ type: 'client_report' });
+    expect(envelope.items[0].payload).toEqual({
+      timestamp: expect.any(Number),
+      discarded_events: [
+        { reason: 'before_send', category: 'error', quantity: 2 },
+      ],
+    });
+
+    // Counts are only sent once
+    stub.hide();
+    expect(stub.requests).toHaveLength(1);
+    expect(discarded(client)).toEqual(['before_send:error:2']);
+  });
+});
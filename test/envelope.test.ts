@@ -0,0 +1,88 @@
+import {
+  API,
+  createEnvelopeHeaders,
+  eventToEnvelope,
+} from '../src/packages/core';
+import {
+  createEnvelope,
+  getEnvelopeByteLength,
+  parseEnvelope,
+  serializeEnvelope,
+} from '../src/packages/utils';
+
+const DSN = 'https://key@sentry.example.com/1';
+
+describe('envelope', () => {
+  const envelope = eventToEnvelope(
+    { event_id: 'a', message: 'Hello 世界' },
+    new API(DSN),
+    [
+      {
+        filename: 'log.txt',
+        data: 'first line\nsecond line 😀\n\n中文',
+        contentType: 'text/plain',
+      },
+    ],
+  );
+
+  it('serializes headers and items on their own lines', () => {
+    const lines = serializeEnvelope(envelope).split('\n');
+
+    expect(JSON.parse(lines[0])).toEqual({
+      event_id: 'a',
+      sent_at: expect.any(String),
+    });
+    expect(JSON.parse(lines[1])).toEqual({ type: 'event' });
+    expect(JSON.parse(lines[2])).toEqual({
+      event_id: 'a',
+      message: 'Hello 世界',
+    });
+    expect(JSON.parse(lines[3])).toEqual({
+      type: 'attachment',
+      // 'first line\n' 11 + 'second line ' 12 + emoji 4 + '\n\n' 2 + 2 × 3
+      length: 35,
+      filename: 'log.txt',
+      content_type: 'text/plain',
+    });
+  });
+
+  it('parses what it serializes', () => {
+    expect(parseEnvelope(serializeEnvelope(envelope))).toEqual(envelope);
+  });
+
+  it('parses items following an attachment with newlines', () => {
+    const withSession = createEnvelope(envelope.headers, [
+      ...envelope.items,
+      { headers: { type: 'session' }, payload: { sid: 'b' } },
+    ]);
+
+    expect(parseEnvelope(serializeEnvelope(withSession))).toEqual(withSession);
+  });
+
+  it('counts bytes encoded as UTF-8', () => {
+    const serialized = serializeEnvelope(envelope);
+
+    expect(getEnvelopeByteLength(envelope)).toBe(
+      Buffer.byteLength(serialized, 'utf8'),
+    );
+    expect(getEnvelopeByteLength(envelope)).toBeGreaterThan(serialized.length);
+  });
+
+  it('throws on malformed headers', () => {
+    expect(() => parseEnvelope('{"event_id":')).toThrow(SyntaxError);
+  });
+});
+
+describe('createEnvelopeHeaders', () => {
+  it('sets the DSN only when a tunnel is used', () => {
+    expect(createEnvelopeHeaders(new API(DSN))).toEqual({
+      sent_at: expect.any(String),
+    });
+    expect(
+      createEnvelopeHeaders(new API(DSN, 'https://example.com/tunnel')),
+    ).toEqual({
+      sent_at: expect.any(String),
+      dsn: DSN,
+    });
+  });
+});
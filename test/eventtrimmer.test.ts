@@ -0,0 +1,236 @@
+import { Event, StackFrame } from '../src/packages/types';
+
+import { trimEvent, trimStacktraces } from '../src/eventtrimmer';
+
+/** Serialized size of the event */
+function size(event: Event): number {
+  return Buffer.byteLength(JSON.stringify(event), 'utf8');
+}
+
+/** Distinct frames, outermost first */
+function frames(count: number): StackFrame[] {
+  const result: StackFrame[] = [];
+  for (let i = 0; i < count; i++) {
+    result.push({
+      filename: 'app:///pages/index/index.js',
+      function: `handler${i}`,
+      lineno: i + 1,
+      colno: 1,
+    });
+  }
+  return result;
+}
+
+/** An event with the given breadcrumbs, extra and frames */
+function createEvent(
+  breadcrumbs: number,
+  extra: { [key: string]: unknown },
+  frameCount: number,
+): Event {
+  const event: Event = {
+    event_id: 'a',
+    breadcrumbs: [],
+    extra,
+    exception: {
+      values: [
+        {
+          type: 'Error',
+          value: 'trimmed',
+          stacktrace: { frames: frames(frameCount) },
+        },
+      ],
+    },
+  };
+  for (let i = 0; i < breadcrumbs; i++) {
+    (event.breadcrumbs || []).push({
+      category: 'console',
+      message: `crumb ${i} ${'x'.repeat(80)}`,
+    });
+  }
+  return event;
+}
+
+describe('trimEvent', () => {
+  it('leaves events within the budget alone', () => {
+    const event = createEvent(10, { small: 'value' }, 10);
+    const before = JSON.stringify(event);
+
+    trimEvent(event, size(event));
+    expect(JSON.stringify(event)).toBe(before);
+    expect(event._meta).toBeUndefined();
+  });
+
+  it('drops the oldest breadcrumbs first', () => {
+    const event = createEvent(50, { big: 'y'.repeat(5000) }, 100);
+    const maxBytes = size(event) - 1000;
+
+    trimEvent(event, maxBytes);
+    const messages = (event.breadcrumbs || []).map(
+      ({ message }) => (message || '').split(' ')[1],
+    );
+    expect(messages.length).toBeLessThan(50);
+    expect(messages[messages.length - 1]).toBe('49');
+    expect(messages[0]).toBe(`${50 - messages.length}`);
+    expect(size(event)).toBeLessThanOrEqual(maxBytes);
+
+    expect(event._meta).toEqual({ breadcrumbs: { '': { len: 50 } } });
+    expect((event.extra || {}).big).toHaveLength(5000);
+  });
+
+  it('then truncates extra values', () => {
+    const event = createEvent(5, { big: 'y'.repeat(5000), small: 'z' }, 100);
+    const maxBytes = size(event) - 2000;
+
+    trimEvent(event, maxBytes);
+    expect(event.breadcrumbs).toEqual([]);
+    expect(((event.extra || {}).big as string).length).toBeLessThan(1100);
+    expect((event.extra || {}).small).toBe('z');
+    expect(size(event)).toBeLessThanOrEqual(maxBytes);
+
+    expect(event._meta).toEqual({
+      breadcrumbs: { '': { len: 5 } },
+      extra: { big: { '': { len: 5000, rem: [['!limit', 'x']] } } },
+    });
+    const [exception] = (event.exception && event.exception.values) || [];
+    expect((exception.stacktrace || {}).frames).toHaveLength(100);
+  });
+
+  it('finally removes frames from the middle of stack traces', () => {
+    const event = createEvent(5, { big: 'y'.repeat(5000) }, 200);
+    const maxBytes = size(event) - 8000;
+
+    trimEvent(event, maxBytes);
+    const [exception] = (event.exception && event.exception.values) || [];
+    const stacktrace = exception.stacktrace || {};
+    const kept = stacktrace.frames || [];
+    const omitted = stacktrace.frames_omitted as [number, number];
+    expect(kept.length).toBeLessThan(200);
+    expect(omitted).toEqual([kept.length / 2, 200 - kept.length / 2]);
+    // Both ends are kept
+    expect(kept[0].function).toBe('handler0');
+    expect(kept[kept.length - 1].function).toBe('handler199');
+    expect(size(event)).toBeLessThanOrEqual(maxBytes);
+
+    expect(event._meta).toEqual({
+      breadcrumbs: { '': { len: 5 } },
+      extra: { big: { '': { len: 5000, rem: [['!limit', 'x']] } } },
+      exception: {
+        values: { 0: { stacktrace: { frames: { '': { len: 200 } } } } },
+      },
+    });
+  });
+});
+
+/** An event with a single stack trace holding the given frames */
+function createStacktraceEvent(stackFrames: StackFrame[]): Event {
+  return {
+    exception: {
+      values: [{ type: 'Error', stacktrace: { frames: stackFrames } }],
+    },
+  };
+}
+
+/** Names of the functions of the first stack trace */
+function functions(event: Event): string[] {
+  const [exception] = (event.exception && event.exception.values) || [];
+  return ((exception.stacktrace || {}).frames || []).map(
+    (frame) => frame.function as string,
+  );
+}
+
+describe('trimStacktraces', () => {
+  const recursion = (times: number): StackFrame[] => {
+    const run: StackFrame[] = [];
+    for (let i = 0; i < times; i++) {
+      run.push(
+        { filename: 'app:///utils.js', function: 'walk', lineno: 1 },
+        { filename: 'app:///utils.js', function: 'visit', lineno: 2 },
+      );
+    }
+    return run;
+  };
+
+  it('keeps both ends of long stack traces', () => {
+    const event = trimStacktraces(createStacktraceEvent(frames(100)), 40, 10);
+    const [exception] = (event.exception && event.exception.values) || [];
+
+    expect(functions(event)).toEqual([
+      ...frames(10).map((frame) => frame.function),
+      ...frames(100)
+        .slice(60)
+        .map((frame) => frame.function),
+    ]);
+    expect((exception.stacktrace || {}).frames_omitted).toEqual([10, 60]);
+    expect(event._meta).toEqual({
+      exception: {
+        values: { 0: { stacktrace: { frames: { '': { len: 100 } } } } },
+      },
+    });
+  });
+
+  it('collapses recursive runs of frames', () => {
+    const event = trimStacktraces(
+      createStacktraceEvent([
+        ...frames(1),
+        ...recursion(10),
+        { filename: 'app:///app.js', function: 'onError', lineno: 3 },
+      ]),
+    );
+    const [exception] = (event.exception && event.exception.values) || [];
+
+    expect(functions(event)).toEqual(['handler0', 'walk', 'visit', 'onError']);
+    expect((exception.stacktrace || {}).frames_omitted).toBeUndefined();
+    expect(event._meta).toEqual({
+      exception: {
+        values: {
+          0: {
+            stacktrace: { '': { rem: [['!collapse_recursion', 'x']] } },
+          },
+        },
+      },
+    });
+  });
+
+  it('omits frames counted on the collapsed stack trace', () => {
+    const all = frames(60);
+    const event = trimStacktraces(
+      createStacktraceEvent([
+        ...all.slice(0, 10),
+        ...recursion(100),
+        ...all.slice(10),
+      ]),
+      40,
+      10,
+    );
+    const [exception] = (event.exception && event.exception.values) || [];
+    const stacktrace = exception.stacktrace || {};
+
+    // 10 + 2 + 50 frames are left after collapsing
+    expect(stacktrace.frames_omitted).toEqual([10, 22]);
+    expect(functions(event)).toEqual(
+      [...all.slice(0, 10), ...all.slice(20)].map((frame) => frame.function),
+    );
+    const meta = event._meta as { [key: string]: any };
+    const stacktraceMeta = meta.exception.values[0].stacktrace;
+    expect(stacktraceMeta.frames).toEqual({ '': { len: 62 } });
+    expect(stacktraceMeta['']).toEqual({
+      rem: [['!collapse_recursion', 'x']],
+    });
+    const [start, end] = stacktrace.frames_omitted as [number, number];
+    expect((stacktrace.frames || []).length + end - start).toBe(
+      stacktraceMeta.frames[''].len,
+    );
+  });
+
+  it('does not collapse frames when disabled', () => {
+    const event = trimStacktraces(
+      createStacktraceEvent(recursion(3)),
+      40,
+      10,
+      false,
+    );
+
+    expect(functions(event)).toHaveLength(6);
+    expect(event._meta).toBeUndefined();
+  });
+});
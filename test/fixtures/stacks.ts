@@ -0,0 +1,56 @@
+/**
+ * Stacks of errors thrown by mini programs, as found in `error.stack` on the
+ * supported platforms.
+ */
+
+/** Android, V8 in production */
+export const ANDROID = {
+  name: 'TypeError',
+  message: "Cannot read property 'name' of undefined",
+  stack: `TypeError: Cannot read property 'name' of undefined
+    at ye.onLoad (https://usr/app-service.js:3:12345)
+    at ye.<anonymous> (https://lib/WAServiceMainContext.js:1:1234567)
+    at ye.p.__callPageLifeTime__ (https://lib/WAServiceMainContext.js:1:1230000)
+    at https://usr/app-service.js:5:67`,
+};
+
+/** Android, with the files of subpackages and plugins */
+export const ANDROID_SUBPACKAGE = {
+  name: 'Error',
+  message: 'Request failed',
+  stack: `Error: Request failed
+    at Object.fetchOrders (https://usr/packageA/app-service.js:12:345)
+    at Function.call (plugin://wx2b03c6e691cd7370/index.js:1:678)
+    at new Promise (<anonymous>)
+    at t.onShow (appservice/pages/index/index.js:20:15)`,
+};
+
+/** iOS, JavaScriptCore in production */
+export const IOS = {
+  name: 'TypeError',
+  message: "undefined is not an object (evaluating 'e.data.name')",
+  stack: `onLoad@https://usr/app-service.js:3:12345
+forEach@[native code]
+p@https://lib/WAServiceMainContext.js:1:234
+@https://usr/app-service.js:1:2
+global code@weapp:///pages/index/index.js:12:9`,
+};
+
+/** iOS, reading a file of the user data directory */
+export const IOS_WXFILE = {
+  name: 'Error',
+  message: 'Unexpected token',
+  stack: `parse@[native code]
+readConfig@wxfile://usr/config.js:4:20`,
+};
+
+/** WeChat devtools, serving files from a local server or the VM */
+export const DEVTOOLS = {
+  name: 'Error',
+  message: 'boom',
+  stack: `Error: boom
+    at li.onLoad (http://127.0.0.1:45678/appservice/pages/index/index.js:12:11)
+    at Function.r (appservice.app.js:1:2345)
+    at VM12 WAService.js:2:1234
+    at n (WAServiceMainContext.js?t=wechat&s=1600000000000&v=2.14.1:2:12345)`,
+};
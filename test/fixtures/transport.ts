@@ -0,0 +1,18 @@
+import { Event, Response, Status } from '../../src/packages/types';
+
+/** Events sent by every `TestTransport`, oldest first */
+export const sentEvents: Event[] = [];
+
+/** Keeps events in `sentEvents` instead of sending them */
+export class TestTransport {
+  /** JSDoc */
+  public sendEvent(event: Event): PromiseLike<Response> {
+    sentEvents.push(event);
+    return Promise.resolve({ status: Status.Success });
+  }
+
+  /** JSDoc */
+  public close(): PromiseLike<boolean> {
+    return Promise.resolve(true);
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * A stand-in for the `wx` global, with storage kept in memory and requests
+ * answered by the tests.
+ */
+
+/** A `wx.request` call waiting for its response */
+export interface PendingRequest {
+  url: string;
+  data: string;
+  /** Answers the request with the given status code */
+  respond(statusCode: number, headers?: Record<string, string>): void;
+  /** Fails the request, as if the server could not be reached */
+  fail(errMsg?: string): void;
+}
+
+/** The stand-in, with the state the tests look at */
+export interface WxStub {
+  storage: Record<string, any>;
+  /** Requests which have not been answered yet, oldest first */
+  requests: PendingRequest[];
+  /** Triggers the `wx.onNetworkStatusChange` listeners */
+  changeNetwork(networkType: string, isConnected?: boolean): void;
+  /** Triggers the `wx.onAppHide` listeners */
+  hide(): void;
+  /** Triggers the `wx.onUnhandledRejection` listeners */
+  rejectUnhandled(reason: unknown): void;
+}
+
+/**
+ * Installs a new stand-in as the `wx` global.
+ */
+export function installWx(networkType: string = 'wifi'): WxStub {
+  const storage: Record<string, any> = {};
+  const requests: PendingRequest[] = [];
+  const networkListeners: Array<(res: any) => void> = [];
+  const hideListeners: Array<() => void> = [];
+  const rejectionListeners: Array<(res: any) => void> = [];
+  // Storage keeps copies, as the real one serializes the data
+  const copy = (data: unknown): any =>
+    data === undefined ? data : JSON.parse(JSON.stringify(data));
+
+  const wx = {
+    getStorageSync: (key: string) => copy(storage[key]),
+    setStorage: ({ key, data }: { key: string; data: unknown }) => {
+      storage[key] = copy(data);
+    },
+    removeStorage: ({ key }: { key: string }) => {
+      delete storage[key];
+    },
+    request: ({ url, data, success, fail }: any) => {
+      const request: PendingRequest = {
+        url,
+        data,
+        respond: (statusCode, header = {}) => {
+          requests.splice(requests.indexOf(request), 1);
+          success({ statusCode, header, data: '' });
+        },
+        fail: (errMsg = 'request:fail') => {
+          requests.splice(requests.indexOf(request), 1);
+          fail({ errMsg });
+        },
+      };
+      requests.push(request);
+    },
+    onNetworkStatusChange: (listener: (res: any) => void) => {
+      networkListeners.push(listener);
+    },
+    getNetworkType: ({ success }: any) => success({ networkType }),
+    onAppShow: () => undefined,
+    onAppHide: (listener: () => void) => {
+      hideListeners.push(listener);
+    },
+    onError: () => undefined,
+    onUnhandledRejection: (listener: (res: any) => void) => {
+      rejectionListeners.push(listener);
+    },
+    onPageNotFound: () => undefined,
+    getLaunchOptionsSync: () => ({ path: 'pages/index/index', scene: 1001 }),
+    getSystemInfoSync: () => ({ platform: 'devtools' }),
+    getAccountInfoSync: () => ({ miniProgram: { version: '1.0.0' } }),
+    // Every page is missing, so navigations fail
+    navigateTo: ({ url, fail }: any = {}) => {
+      const error = { errMsg: `navigateTo:fail page "${url}" is not found` };
+      if (fail) {
+        fail(error);
+        return undefined;
+      }
+      return Promise.reject(error);
+    },
+  };
+  Object.assign(global, { wx });
+
+  return {
+    storage,
+    requests,
+    changeNetwork: (type, isConnected = type !== 'none') => {
+      networkListeners.forEach((listener) =>
+        listener({ networkType: type, isConnected }),
+      );
+    },
+    hide: () => hideListeners.forEach((listener) => listener()),
+    rejectUnhandled: (reason) => {
+      const promise = Promise.reject(reason);
+      promise.catch(() => undefined);
+      rejectionListeners.forEach((listener) => listener({ reason, promise }));
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import { GlobalHandlers } from '../src/integrations/globalhandlers';
+import { flush, init } from '../src/sdk';
+
+import { sentEvents as events, TestTransport } from './fixtures/transport';
+import { installWx, WxStub } from './fixtures/wx';
+
+let stub: WxStub;
+
+beforeAll(() => {
+  stub = installWx();
+  Object.assign(global, {
+    getCurrentPages: () => [{ route: 'pages/index/index' }],
+  });
+  init({
+    dsn: 'https://key@sentry.example.com/1',
+    defaultIntegrations: false,
+    integrations: [new GlobalHandlers({ onError: false })],
+    transport: TestTransport,
+  });
+});
+
+beforeEach(() => {
+  events.length = 0;
+});
+
+describe('GlobalHandlers', () => {
+  it('captures failed navigations once when their promise is not caught', async () => {
+    const reason = await wx
+      .navigateTo({ url: '/pages/missing/missing' })
+      .then(null, (error: unknown) => error);
+    stub.rejectUnhandled(reason);
+    await flush(1000);
+
+    expect(events).toHaveLength(1);
+    const [value] = (events[0].exception && events[0].exception.values) || [];
+    expect(value.mechanism).toEqual({
+      data: { from: 'pages/index/index', to: '/pages/missing/missing' },
+      handled: false,
+      type: 'navigation',
+    });
+  });
+
+  it('captures other unhandled rejections', async () => {
+    stub.rejectUnhandled(new Error('rejected'));
+    await flush(1000);
+
+    expect(events).toHaveLength(1);
+    const [value] = (events[0].exception && events[0].exception.values) || [];
+    expect(value.mechanism).toEqual({
+      handled: false,
+      type: 'onUnhandledRejection',
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { Exception, ExtendedError } from '../src/packages/types';
+
+import { captureException } from '../src/exports';
+import { LinkedErrors } from '../src/integrations/linkederrors';
+import { flush, init } from '../src/sdk';
+
+import { sentEvents, TestTransport } from './fixtures/transport';
+import { installWx } from './fixtures/wx';
+
+/** Captures the error and returns the exceptions of the sent event */
+async function capture(error: Error): Promise<Exception[]> {
+  sentEvents.length = 0;
+  captureException(error);
+  await flush(1000);
+  const [event] = sentEvents;
+  return (event.exception && event.exception.values) || [];
+}
+
+/** Picks what the tests look at from exceptions */
+function summarize(exceptions: Exception[]): Array<Record<string, unknown>> {
+  return exceptions.map(({ type, value, mechanism = {} }) => ({
+    type,
+    value,
+    source: mechanism.source,
+    exception_id: mechanism.exception_id,
+    parent_id: mechanism.parent_id,
+  }));
+}
+
+beforeAll(() => {
+  installWx();
+  init({
+    dsn: 'https://key@sentry.example.com/1',
+    defaultIntegrations: false,
+    integrations: [new LinkedErrors()],
+    transport: TestTransport,
+  });
+});
+
+describe('LinkedErrors', () => {
+  it('follows causes', async () => {
+    const error: ExtendedError = new Error('a');
+    error.cause = new TypeError('b');
+
+    expect(summarize(await capture(error))).toEqual([
+      {
+        type: 'TypeError',
+        value: 'b',
+        source: 'cause',
+        exception_id: 1,
+        parent_id: 0,
+      },
+      { type: 'Error', value: 'a', source: undefined, exception_id: 0 },
+    ]);
+  });
+
+  it('follows the errors of an AggregateError', async () => {
+    const error: ExtendedError = new Error('All promises were rejected');
+    error.name = 'AggregateError';
+    error.errors = [new Error('first'), new Error('second')];
+
+    const exceptions = await capture(error);
+    expect(summarize(exceptions)).toEqual([
+      {
+        type: 'Error',
+        value: 'second',
+        source: 'errors[1]',
+        exception_id: 2,
+        parent_id: 0,
+      },
+      {
+        type: 'Error',
+        value: 'first',
+        source: 'errors[0]',
+        exception_id: 1,
+        parent_id: 0,
+      },
+      {
+        type: 'AggregateError',
+        value: 'All promises were rejected',
+        source: undefined,
+        exception_id: 0,
+      },
+    ]);
+    expect(exceptions[2].mechanism).toMatchObject({
+      is_exception_group: true,
+    });
+  });
+
+  it('turns causes which are not errors into synthetic exceptions', async () => {
+    const error: ExtendedError = new Error('All promises were rejected');
+    error.name = 'AggregateError';
+    error.errors = [{ errMsg: 'request:fail timeout' }, 'boom'];
+
+    const exceptions = await capture(error);
+    expect(summarize(exceptions)).toEqual([
+      {
+        type: 'Error',
+        value: 'boom',
+        source: 'errors[1]',
+        exception_id: 2,
+        parent_id: 0,
+      },
+      {
+        type: 'WxApiError',
+        value: 'request:fail timeout',
+        source: 'errors[0]',
+        exception_id: 1,
+        parent_id: 0,
+      },
+      {
+        type: 'AggregateError',
+        value: 'All promises were rejected',
+        source: undefined,
+        exception_id: 0,
+      },
+    ]);
+    expect(exceptions[0].mechanism).toMatchObject({
+      type: 'chained',
+      synthetic: true,
+    });
+    expect(exceptions[1].mechanism).toMatchObject({
+      type: 'chained',
+      synthetic: true,
+    });
+  });
+
+  it('links nested causes to their own parent', async () => {
+    const error: ExtendedError = new Error('a');
+    const b: ExtendedError = new Error('b');
+    b.cause = new Error('c');
+    error.errors = [b, new Error('d')];
+
+    expect(summarize(await capture(error))).toMatchObject([
+      { value: 'd', exception_id: 3, parent_id: 0 },
+      { value: 'c', exception_id: 2, parent_id: 1 },
+      { value: 'b', exception_id: 1, parent_id: 0 },
+      { value: 'a', exception_id: 0, parent_id: undefined },
+    ]);
+  });
+
+  it('stops at cyclic causes', async () => {
+    const a: ExtendedError = new Error('a');
+    const b: ExtendedError = new Error('b');
+    a.cause = b;
+    b.cause = a;
+
+    expect((await capture(a)).map(({ value }) => value)).toEqual(['b', 'a']);
+  });
+
+  it('stops at errors causing themselves', async () => {
+    const a: ExtendedError = new Error('a');
+    a.cause = a;
+
+    expect((await capture(a)).map(({ value }) => value)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,92 @@
+import { SentryRequest } from '../src/packages/types';
+
+import { OfflineStore } from '../src/transports/offline';
+
+import { installWx, WxStub } from './fixtures/wx';
+
+/** A request with the given body */
+function request(body: string): SentryRequest {
+  return {
+    body,
+    type: 'event',
+    url: 'https://sentry.example.com/api/1/envelope/',
+  };
+}
+
+/** Bodies of all stored requests, oldest first */
+function bodies(store: OfflineStore): string[] {
+  return store.getAll().map((stored) => stored.request.body);
+}
+
+let stub: WxStub;
+
+beforeEach(() => {
+  stub = installWx();
+});
+
+describe('OfflineStore', () => {
+  it('persists requests across instances', () => {
+    const store = new OfflineStore();
+    store.add(request('a'));
+    store.add(request('b'));
+
+    expect(bodies(new OfflineStore())).toEqual(['a', 'b']);
+  });
+
+  it('never reuses slot numbers', () => {
+    const store = new OfflineStore();
+    const a = store.add(request('a'));
+    const b = store.add(request('b'));
+    store.remove(a as number);
+    store.remove(b as number);
+    const c = store.add(request('c'));
+
+    expect([a, b, c]).toEqual([0, 1, 2]);
+    expect(new OfflineStore().add(request('d'))).toBe(3);
+  });
+
+  it('drops the oldest requests once the limit is reached', () => {
+    const dropped: Array<[string, number]> = [];
+    const store = new OfflineStore(2, (req, key) =>
+      dropped.push([req.body, key]),
+    );
+    store.add(request('a'));
+    store.add(request('b'));
+    store.add(request('c'));
+
+    expect(bodies(store)).toEqual(['b', 'c']);
+    expect(dropped).toEqual([['a', 0]]);
+    expect(store.has(0)).toBe(false);
+    expect(stub.storage.__sentry_offline__0).toBeUndefined();
+  });
+
+  it('drops the oldest requests once the byte budget is exceeded', () => {
+    const dropped: string[] = [];
+    const store = new OfflineStore(30, (req) => dropped.push(req.body), 10);
+    store.add(request('aaaa'));
+    store.add(request('bbbb'));
+    // Multi-byte characters count with their UTF-8 length
+    store.add(request('汉字'));
+
+    expect(bodies(store)).toEqual(['bbbb', '汉字']);
+    expect(dropped).toEqual(['aaaa']);
+  });
+
+  it('does not store requests larger than the byte budget', () => {
+    const store = new OfflineStore(30, undefined, 4);
+    store.add(request('a'));
+
+    expect(store.add(request('abcde'))).toBeUndefined();
+    expect(bodies(store)).toEqual(['a']);
+  });
+
+  it('forgets slots whose request got lost', () => {
+    const store = new OfflineStore();
+    store.add(request('a'));
+    const b = store.add(request('b')) as number;
+    delete stub.storage[`__sentry_offline__${b}`];
+
+    expect(bodies(store)).toEqual(['a']);
+    expect(store.has(b)).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+import { parseOnErrorMessage } from '../src/packages/utils/onerror';
+
+describe('parseOnErrorMessage', () => {
+  it('takes the message from the stack of the engine', () => {
+    const details = parseOnErrorMessage(
+      [
+        'thirdScriptError',
+        "Cannot read property 'a' of undefined;at pages/index/index page onLoad function",
+        "TypeError: Cannot read property 'a' of undefined",
+        '    at Ie.onLoad (https://usr/app-service.js:1:2345)',
+      ].join('\n'),
+    );
+    expect(details).toEqual({
+      name: 'TypeError',
+      message: "Cannot read property 'a' of undefined",
+      stack: [
+        "TypeError: Cannot read property 'a' of undefined",
+        '    at Ie.onLoad (https://usr/app-service.js:1:2345)',
+      ].join('\n'),
+      origin: 'appservice',
+      wrapper: 'thirdScriptError',
+      location: 'pages/index/index page onLoad function',
+    });
+  });
+
+  it('takes the message from the line before a generic header', () => {
+    const details = parseOnErrorMessage(
+      [
+        'MiniProgramError',
+        'Request failed',
+        'Error: MiniProgramError',
+        '    at Object.onShow (https://usr/app-service.js:3:45)',
+      ].join('\n'),
+    );
+    expect(details.name).toBe('Error');
+    expect(details.message).toBe('Request failed');
+    expect(details.wrapper).toBe('MiniProgramError');
+  });
+
+  it('turns the result of failed wx API calls into a WxApiError', () => {
+    const details = parseOnErrorMessage(
+      [
+        'MiniProgramError',
+        '{"errMsg":"hideLoading:fail toast can\'t be found"}',
+        'Error: MiniProgramError',
+        '    at Object.hideLoading (https://lib/WAServiceMainContext.js:1:2345)',
+      ].join('\n'),
+    );
+    expect(details.name).toBe('WxApiError');
+    expect(details.message).toBe("hideLoading:fail toast can't be found");
+    expect(details.stack).toBe(
+      [
+        'Error: MiniProgramError',
+        '    at Object.hideLoading (https://lib/WAServiceMainContext.js:1:2345)',
+      ].join('\n'),
+    );
+  });
+
+  it('parses failed wx API calls without a stack', () => {
+    const details = parseOnErrorMessage(
+      'MiniProgramError\n{"errMsg":"getLocation:fail auth deny","errno":103}',
+    );
+    expect(details.name).toBe('WxApiError');
+    expect(details.message).toBe(
+      'getLocation:fail auth deny (errno 103: The API has not been authorized by the user)',
+    );
+  });
+
+  it('recognizes errors of the webview', () => {
+    const details = parseOnErrorMessage('webviewScriptError\nScript error.');
+    expect(details.origin).toBe('webview');
+    expect(details.message).toBe('Script error.');
+  });
+});
@@ -0,0 +1,80 @@
+import { PageLifecycle } from '../src/integrations/pagelifecycle';
+import { flush, init } from '../src/sdk';
+
+import { sentEvents as events, TestTransport } from './fixtures/transport';
+import { installWx } from './fixtures/wx';
+
+/** Definitions passed to the original `Page` */
+const pages: Array<{ [key: string]: any }> = [];
+
+beforeAll(() => {
+  installWx();
+  Object.assign(global, {
+    Page: (definition: { [key: string]: any }): void => {
+      pages.push(definition);
+    },
+  });
+  init({
+    dsn: 'https://key@sentry.example.com/1',
+    defaultIntegrations: false,
+    integrations: [new PageLifecycle({ breadcrumbs: false })],
+    transport: TestTransport,
+  });
+});
+
+beforeEach(() => {
+  events.length = 0;
+  pages.length = 0;
+});
+
+describe('PageLifecycle', () => {
+  it('captures errors of hooks shared by pages with their own route', async () => {
+    const onShow = (): void => {
+      throw new Error('onShow');
+    };
+    Page({ onShow });
+    Page({ onShow });
+
+    pages[0].onShow.call({ route: 'pages/first' });
+    pages[1].onShow.call({ route: 'pages/second' });
+    await flush(1000);
+
+    expect(
+      events.map(({ exception }) => {
+        const [value] = (exception && exception.values) || [];
+        return value.mechanism;
+      }),
+    ).toEqual([
+      {
+        data: { function: 'onShow', route: 'pages/first' },
+        handled: true,
+        type: 'instrument',
+      },
+      {
+        data: { function: 'onShow', route: 'pages/second' },
+        handled: true,
+        type: 'instrument',
+      },
+    ]);
+  });
+
+  it('calls hooks on the page instance', () => {
+    const page = { route: 'pages/index', data: {} };
+    let self: unknown;
+    Page({
+      onLoad(this: unknown): void {
+        self = this;
+      },
+    });
+
+    pages[0].onLoad.call(page);
+    expect(self).toBe(page);
+  });
+
+  it('leaves other functions of pages alone by default', () => {
+    const onTap = (): void => undefined;
+    Page({ onTap });
+
+    expect(pages[0].onTap).toBe(onTap);
+  });
+});
@@ -0,0 +1,38 @@
+import { getPluginId, toAppPath } from '../src/packages/utils/path';
+
+describe('toAppPath', () => {
+  it('removes the protocol and host', () => {
+    expect(toAppPath('https://usr/app-service.js')).toBe('app-service.js');
+    expect(toAppPath('weapp:///pages/index/index.js')).toBe(
+      'pages/index/index.js',
+    );
+  });
+
+  it('removes the root of the app service in the devtools', () => {
+    expect(toAppPath('appservice/pages/index/index.js')).toBe(
+      'pages/index/index.js',
+    );
+    expect(
+      toAppPath('http://127.0.0.1:50325/appservice/pages/index/index.js'),
+    ).toBe('pages/index/index.js');
+  });
+
+  it('removes leading and trailing slashes', () => {
+    expect(toAppPath('/packageA/')).toBe('packageA');
+  });
+});
+
+describe('getPluginId', () => {
+  it('returns the AppID of plugins', () => {
+    expect(getPluginId('plugin://wx2b03c6e691cd7370/index.js')).toBe(
+      'wx2b03c6e691cd7370',
+    );
+    expect(getPluginId('plugin-private://wx2b03c6e691cd7370/index.js')).toBe(
+      'wx2b03c6e691cd7370',
+    );
+  });
+
+  it('ignores files of the mini app', () => {
+    expect(getPluginId('https://usr/app-service.js')).toBeUndefined();
+  });
+});
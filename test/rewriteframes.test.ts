@@ -0,0 +1,55 @@
+import { Event } from '../src/packages/types';
+
+import { RewriteFrames } from '../src/integrations/rewriteframes';
+
+/** Rewrites a single filename */
+function rewrite(
+  filename: string,
+  rewriteFrames = new RewriteFrames(),
+): string {
+  const event: Event = {
+    exception: { values: [{ stacktrace: { frames: [{ filename }] } }] },
+  };
+  const values = (rewriteFrames.process(event).exception || {}).values || [];
+  return ((values[0].stacktrace || {}).frames || [])[0].filename as string;
+}
+
+describe('RewriteFrames', () => {
+  it('rewrites files of devices', () => {
+    expect(rewrite('https://usr/app-service.js')).toBe('app:///app-service.js');
+    expect(rewrite('weapp:///pages/index/index.js')).toBe(
+      'app:///pages/index/index.js',
+    );
+  });
+
+  it('rewrites files of the devtools', () => {
+    expect(rewrite('appservice/pages/index/index.js')).toBe(
+      'app:///pages/index/index.js',
+    );
+    expect(
+      rewrite('http://127.0.0.1:45678/appservice/pages/index/index.js'),
+    ).toBe('app:///pages/index/index.js');
+  });
+
+  it('leaves frames of plugins untouched', () => {
+    expect(rewrite('plugin://wx2b03c6e691cd7370/index.js')).toBe(
+      'plugin://wx2b03c6e691cd7370/index.js',
+    );
+    expect(rewrite('plugin-private://wx2b03c6e691cd7370/index.js')).toBe(
+      'plugin-private://wx2b03c6e691cd7370/index.js',
+    );
+  });
+
+  it('leaves frames without a file untouched', () => {
+    expect(rewrite('[native code]')).toBe('[native code]');
+  });
+
+  it('makes paths relative to the root', () => {
+    expect(
+      rewrite(
+        'weapp:///miniprogram/pages/index/index.js',
+        new RewriteFrames({ root: 'miniprogram' }),
+      ),
+    ).toBe('app:///pages/index/index.js');
+  });
+});
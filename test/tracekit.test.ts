@@ -0,0 +1,108 @@
+import { computeStackTrace, StackFrame } from '../src/tracekit';
+
+import {
+  ANDROID,
+  ANDROID_SUBPACKAGE,
+  DEVTOOLS,
+  IOS,
+  IOS_WXFILE,
+} from './fixtures/stacks';
+
+/** Builds the frame expected from a parsed stack line */
+function frame(
+  func: string,
+  url: string,
+  line: number | null,
+  column: number | null,
+): StackFrame {
+  return { func, url, args: [], line, column };
+}
+
+describe('computeStackTrace', () => {
+  it('parses V8 stacks of Android', () => {
+    expect(computeStackTrace(ANDROID).stack).toEqual([
+      frame('ye.onLoad', 'https://usr/app-service.js', 3, 12345),
+      frame(
+        'ye.<anonymous>',
+        'https://lib/WAServiceMainContext.js',
+        1,
+        1234567,
+      ),
+      frame(
+        'ye.p.__callPageLifeTime__',
+        'https://lib/WAServiceMainContext.js',
+        1,
+        1230000,
+      ),
+      frame('?', 'https://usr/app-service.js', 5, 67),
+    ]);
+  });
+
+  it('parses subpackage, plugin and appservice files on Android', () => {
+    expect(computeStackTrace(ANDROID_SUBPACKAGE).stack).toEqual([
+      frame(
+        'Object.fetchOrders',
+        'https://usr/packageA/app-service.js',
+        12,
+        345,
+      ),
+      frame('Function.call', 'plugin://wx2b03c6e691cd7370/index.js', 1, 678),
+      frame('new Promise', '<anonymous>', null, null),
+      frame('t.onShow', 'appservice/pages/index/index.js', 20, 15),
+    ]);
+  });
+
+  it('parses JavaScriptCore stacks of iOS', () => {
+    expect(computeStackTrace(IOS).stack).toEqual([
+      frame('onLoad', 'https://usr/app-service.js', 3, 12345),
+      frame('forEach', '[native code]', null, null),
+      frame('p', 'https://lib/WAServiceMainContext.js', 1, 234),
+      frame('?', 'https://usr/app-service.js', 1, 2),
+      frame('global code', 'weapp:///pages/index/index.js', 12, 9),
+    ]);
+  });
+
+  it('parses wxfile urls of iOS', () => {
+    expect(computeStackTrace(IOS_WXFILE).stack).toEqual([
+      frame('parse', '[native code]', null, null),
+      frame('readConfig', 'wxfile://usr/config.js', 4, 20),
+    ]);
+  });
+
+  it('parses stacks of the devtools', () => {
+    expect(computeStackTrace(DEVTOOLS).stack).toEqual([
+      frame(
+        'li.onLoad',
+        'http://127.0.0.1:45678/appservice/pages/index/index.js',
+        12,
+        11,
+      ),
+      frame('Function.r', 'appservice.app.js', 1, 2345),
+      frame('?', 'WAService.js', 2, 1234),
+      frame(
+        'n',
+        'WAServiceMainContext.js?t=wechat&s=1600000000000&v=2.14.1',
+        2,
+        12345,
+      ),
+    ]);
+  });
+
+  it('keeps the name and message of the error', () => {
+    const stacktrace = computeStackTrace(IOS);
+    expect(stacktrace.name).toBe('TypeError');
+    expect(stacktrace.message).toBe(IOS.message);
+  });
+
+  it('does not take the message for a frame', () => {
+    const stacktrace = computeStackTrace({
+      name: 'Error',
+      message: 'Cannot find module app.js',
+      stack:
+        'Error: Cannot find module app.js\nonLoad@https://usr/app-service.js:1:2',
+    });
+    expect(stacktrace.stack).toEqual([
+      frame('onLoad', 'https://usr/app-service.js', 1, 2),
+    ]);
+  });
+});
@@ -0,0 +1,263 @@
+import { TransportOptions } from '../src/packages/types';
+
+import { OfflineStore } from '../src/transports/offline';
+import { RequestTransport } from '../src/transports/request';
+
+import { installWx, PendingRequest, WxStub } from './fixtures/wx';
+
+const DSN = 'https://key@sentry.example.com/1';
+
+/** Lets pending promise callbacks run */
+function tick(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/** Creates a transport which neither retries nor sends client reports */
+function createTransport(
+  options?: Partial<TransportOptions>,
+): RequestTransport {
+  return new RequestTransport({
+    dsn: DSN,
+    retry: { maxRetries: 0 },
+    sendClientReports: false,
+    ...options,
+  });
+}
+
+/** Reads the envelope header of a request */
+function envelopeHeader(request: PendingRequest): Record<string, any> {
+  return JSON.parse(request.data.split('\n')[0]);
+}
+
+/** Event ids of the pending requests, oldest first */
+function pendingIds(stub: WxStub): string[] {
+  return stub.requests.map((request) => envelopeHeader(request).event_id);
+}
+
+/** Event ids of the stored requests, oldest first */
+function storedIds(): string[] {
+  return new OfflineStore()
+    .getAll()
+    .map(({ request }) => JSON.parse(request.body.split('\n')[0]).event_id);
+}
+
+/** Stores an event request, as left behind by a previous launch */
+function storeEvent(eventId: string): void {
+  new OfflineStore().add({
+    body: [
+      JSON.stringify({
+        event_id: eventId,
+        sent_at: '2020-01-01T00:00:00.000Z',
+      }),
+      JSON.stringify({ type: 'event' }),
+      JSON.stringify({ event_id: eventId }),
+    ].join('\n'),
+    type: 'event',
+    url: 'https://sentry.example.com/api/1/envelope/',
+  });
+}
+
+/** Discarded events, as `reason:category` */
+function discarded(transport: RequestTransport): string[] {
+  return transport
+    .getClientReports()
+    .discarded_events.map(
+      ({ reason, category, quantity }) => `${reason}:${category}:${quantity}`,
+    );
+}
+
+let stub: WxStub;
+
+beforeEach(() => {
+  stub = installWx();
+});
+
+describe('offline storage', () => {
+  it('stores requests until they are delivered', async () => {
+    const transport = createTransport();
+    const sent = transport.sendEvent({ event_id: 'a' });
+    expect(storedIds()).toEqual(['a']);
+
+    stub.requests[0].respond(200);
+    await sent;
+    expect(storedIds()).toEqual([]);
+  });
+
+  it('keeps requests which could not be delivered', async () => {
+    const transport = createTransport();
+    const sent = transport.sendEvent({ event_id: 'a' });
+
+    stub.requests[0].fail();
+    await expect(sent).rejects.toBeDefined();
+    expect(storedIds()).toEqual(['a']);
+    expect(discarded(transport)).toEqual([]);
+  });
+
+  it('forgets requests refused by Sentry', async () => {
+    const transport = createTransport();
+    const sent = transport.sendEvent({ event_id: 'a' });
+
+    stub.requests[0].respond(400);
+    await expect(sent).rejects.toBeDefined();
+    expect(storedIds()).toEqual([]);
+  });
+
+  it('replays stored requests oldest first and stops at the first failure', async () => {
+    storeEvent('a');
+    storeEvent('b');
+    storeEvent('c');
+    createTransport();
+
+    expect(pendingIds(stub)).toEqual(['a']);
+    // Replayed requests are sent with the current time
+    expect(envelopeHeader(stub.requests[0]).sent_at).not.toBe(
+      '2020-01-01T00:00:00.000Z',
+    );
+    stub.requests[0].respond(200);
+    await tick();
+
+    expect(pendingIds(stub)).toEqual(['b']);
+    stub.requests[0].fail();
+    await tick();
+
+    expect(pendingIds(stub)).toEqual([]);
+    expect(storedIds()).toEqual(['b', 'c']);
+
+    // Tried again once the network is back
+    stub.changeNetwork('wifi');
+    expect(pendingIds(stub)).toEqual(['b']);
+  });
+
+  it('does not replay requests which are on their way', async () => {
+    const transport = createTransport();
+    const sent = transport.sendEvent({ event_id: 'a' });
+
+    stub.changeNetwork('wifi');
+    expect(pendingIds(stub)).toEqual(['a']);
+
+    stub.requests[0].respond(200);
+    await sent;
+    stub.changeNetwork('wifi');
+    expect(pendingIds(stub)).toEqual([]);
+  });
+
+  it('does not count requests dropped while on their way as lost once delivered', async () => {
+    const transport = createTransport({ offlineStorageLimit: 2 });
+    const a = transport.sendEvent({ event_id: 'a' });
+    transport.sendEvent({ event_id: 'b' });
+    transport.sendEvent({ event_id: 'c' });
+    expect(storedIds()).toEqual(['b', 'c']);
+
+    stub.requests[0].respond(200);
+    await a;
+    expect(discarded(transport)).toEqual([]);
+
+    // The others are still known to be on their way
+    stub.changeNetwork('wifi');
+    expect(pendingIds(stub)).toEqual(['b', 'c']);
+  });
+
+  it('counts requests dropped while on their way as lost once their delivery fails', async () => {
+    const transport = createTransport({ offlineStorageLimit: 1 });
+    const a = transport.sendEvent({ event_id: 'a' });
+    transport.sendEvent({ event_id: 'b' });
+
+    stub.requests[0].fail();
+    await expect(a).rejects.toBeDefined();
+
+    expect(storedIds()).toEqual(['b']);
+    expect(discarded(transport)).toEqual(['network_error:error:1']);
+  });
+});
+
+describe('retries', () => {
+  const retry = { maxRetries: 2, baseDelay: 100, maxDelay: 1000 };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('retries server errors up to maxRetries', async () => {
+    const transport = createTransport({ retry });
+    const sent = transport.sendEvent({ event_id: 'a' });
+    const failed = expect(sent).rejects.toBeDefined();
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      expect(pendingIds(stub)).toEqual(['a']);
+      stub.requests[0].respond(attempt === 1 ? 503 : 500);
+      await jest.advanceTimersByTimeAsync(1000);
+    }
+
+    await failed;
+    expect(pendingIds(stub)).toEqual([]);
+    // Kept to be replayed later
+    expect(storedIds()).toEqual(['a']);
+  });
+
+  it('retries network failures up to maxRetries', async () => {
+    const transport = createTransport({ retry });
+    const sent = transport.sendEvent({ event_id: 'a' });
+    const failed = expect(sent).rejects.toBeDefined();
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      expect(pendingIds(stub)).toEqual(['a']);
+      stub.requests[0].fail();
+      await jest.advanceTimersByTimeAsync(1000);
+    }
+
+    await failed;
+    expect(pendingIds(stub)).toEqual([]);
+  });
+
+  it('delivers requests which succeed on a retry', async () => {
+    const transport = createTransport({ retry });
+    const sent = transport.sendEvent({ event_id: 'a' });
+
+    stub.requests[0].fail();
+    await jest.advanceTimersByTimeAsync(1000);
+    stub.requests[0].respond(200);
+
+    await expect(sent).resolves.toEqual({ status: 'success' });
+    expect(storedIds()).toEqual([]);
+  });
+
+  it('does not retry client errors and forgets them', async () => {
+    const transport = createTransport({ retry });
+    const sent = transport.sendEvent({ event_id: 'a' });
+
+    stub.requests[0].respond(400);
+    await expect(sent).rejects.toBeDefined();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(pendingIds(stub)).toEqual([]);
+    expect(storedIds()).toEqual([]);
+  });
+
+  it('waits for Retry-After before retrying', async () => {
+    const transport = createTransport({ retry: { ...retry, maxDelay: 5000 } });
+    transport.sendEvent({ event_id: 'a' });
+
+    stub.requests[0].respond(429, { 'Retry-After': '2' });
+    await jest.advanceTimersByTimeAsync(1900);
+    expect(pendingIds(stub)).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(200);
+    expect(pendingIds(stub)).toEqual(['a']);
+  });
+
+  it('stops retrying when Retry-After is longer than maxDelay', async () => {
+    const transport = createTransport({ retry });
+    const sent = transport.sendEvent({ event_id: 'a' });
+
+    stub.requests[0].respond(429, { 'Retry-After': '60' });
+    await expect(sent).rejects.toBeDefined();
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+
+    expect(pendingIds(stub)).toEqual([]);
+    expect(storedIds()).toEqual(['a']);
+  });
+});
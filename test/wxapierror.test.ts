@@ -0,0 +1,100 @@
+import {
+  formatWxApiError,
+  isWxApiError,
+  parseWxApiError,
+} from '../src/packages/utils/wxapierror';
+
+import { eventFromWxApiError } from '../src/parsers';
+
+describe('isWxApiError', () => {
+  it('accepts failures of wx APIs', () => {
+    expect(isWxApiError({ errMsg: 'getLocation:fail auth deny' })).toBe(true);
+    expect(isWxApiError({ errMsg: 'request:fail', errno: 5 })).toBe(true);
+    expect(isWxApiError({ errMsg: 'cloud.callFunction:fail timeout' })).toBe(
+      true,
+    );
+  });
+
+  it('rejects everything else', () => {
+    expect(isWxApiError({ errMsg: 'getLocation:ok' })).toBe(false);
+    expect(isWxApiError({ errMsg: 42 })).toBe(false);
+    expect(isWxApiError('getLocation:fail auth deny')).toBe(false);
+    expect(isWxApiError(new Error('getLocation:fail auth deny'))).toBe(false);
+    expect(isWxApiError(null)).toBe(false);
+  });
+});
+
+describe('parseWxApiError', () => {
+  it('parses reasons separated by a space', () => {
+    expect(
+      parseWxApiError({ errMsg: 'getLocation:fail auth deny', errno: 103 }),
+    ).toEqual({
+      api: 'getLocation',
+      reason: 'auth deny',
+      errno: 103,
+      description: 'The API has not been authorized by the user',
+    });
+  });
+
+  it('parses reasons separated by a colon', () => {
+    expect(parseWxApiError({ errMsg: 'getLocation:fail:auth denied' })).toEqual(
+      {
+        api: 'getLocation',
+        reason: 'auth denied',
+        errno: undefined,
+        description: undefined,
+      },
+    );
+  });
+
+  it('keeps reasons spanning several lines', () => {
+    expect(
+      parseWxApiError({ errMsg: 'request:fail ssl hand shake error\nretry' })
+        .reason,
+    ).toBe('ssl hand shake error\nretry');
+  });
+
+  it('falls back when there is no reason or no description', () => {
+    expect(parseWxApiError({ errMsg: 'request:fail', errno: 1234 })).toEqual({
+      api: 'request',
+      reason: 'unknown',
+      errno: 1234,
+      description: undefined,
+    });
+  });
+});
+
+describe('formatWxApiError', () => {
+  it('adds the errno and its description', () => {
+    expect(
+      formatWxApiError(
+        parseWxApiError({ errMsg: 'request:fail timeout', errno: 5 }),
+      ),
+    ).toBe('request:fail timeout (errno 5: API call timed out)');
+    expect(
+      formatWxApiError(parseWxApiError({ errMsg: 'request:fail', errno: 9 })),
+    ).toBe('request:fail unknown (errno 9)');
+  });
+});
+
+describe('eventFromWxApiError', () => {
+  it('groups events by API and reason', () => {
+    const event = eventFromWxApiError({
+      errMsg: 'getLocation:fail:auth denied',
+      errno: 103,
+    });
+
+    expect(event.fingerprint).toEqual([
+      'wx-api-error',
+      'getLocation',
+      'auth denied',
+    ]);
+    expect(event.exception && event.exception.values).toEqual([
+      {
+        type: 'WxApiError',
+        value:
+          'getLocation:fail auth denied (errno 103: The API has not been authorized by the user)',
+      },
+    ]);
+  });
+});